@@ -0,0 +1,34 @@
+import { JSONSchema7 } from "json-schema";
+
+export const remoteSchemas: Record<string, JSONSchema7> = {
+  "common.json": {
+    definitions: {
+      id: { type: "string", description: "a shared id" },
+      named: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          id: { $ref: "#/definitions/id" },
+        },
+      },
+      tree: {
+        type: "object",
+        properties: {
+          children: { type: "array", items: { $ref: "tree.json" } },
+        },
+      },
+    },
+  },
+  "tree.json": {
+    $ref: "common.json#/definitions/tree",
+  },
+};
+
+export const externalRefSchema = {
+  type: "object",
+  properties: {
+    id: { $ref: "common.json#/definitions/id" },
+    owner: { $ref: "common.json#/definitions/named" },
+    tree: { $ref: "tree.json" },
+  },
+} as JSONSchema7;
@@ -11,7 +11,9 @@ import {
   CompletionSource,
 } from "@codemirror/autocomplete";
 import { jsonCompletion } from "../../json-completion";
+import { json5Completion } from "../../json5-completion";
 import { JSONSchema7 } from "json-schema";
+import type { KeywordPlugin } from "../../utils/keywordPlugins";
 import { testSchema2 } from "../__fixtures__/schemas";
 import { EditorView } from "@codemirror/view";
 
@@ -45,6 +47,8 @@ export async function expectCompletion(
     explicit?: boolean;
     schema?: JSONSchema7;
     mode?: "json" | "json5";
+    keywords?: KeywordPlugin[];
+    skeletonDepth?: number;
   } = {}
 ) {
   let cur = doc.indexOf("|"),
@@ -59,7 +63,17 @@ export async function expectCompletion(
     extensions: [
       jsonMode(),
       jsonLang.data.of({
-        autocomplete: jsonCompletion(currentSchema, { mode: conf.mode }),
+        autocomplete:
+          conf.mode === "json5"
+            ? json5Completion(currentSchema, {
+                keywords: conf.keywords,
+                skeletonDepth: conf.skeletonDepth,
+              })
+            : jsonCompletion(currentSchema, {
+                mode: conf.mode,
+                keywords: conf.keywords,
+                skeletonDepth: conf.skeletonDepth,
+              }),
       }),
     ],
   });
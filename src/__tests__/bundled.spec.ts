@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import type { JSONSchema7 } from "json-schema";
+import { EditorView } from "@codemirror/view";
+import {
+  forEachDiagnostic,
+  forceLinting,
+  type Diagnostic,
+} from "@codemirror/lint";
+import { jsonSchema, type JSONSchemaOptions } from "../bundled";
+import { json5Schema } from "../json5-bundled";
+
+const schema: JSONSchema7 = {
+  type: "object",
+  properties: { name: { type: "string" } },
+  additionalProperties: false,
+};
+
+// run the linters of the bundle, and collect the schema diagnostics
+const lint = async (
+  bundle: typeof jsonSchema,
+  doc: string,
+  options: JSONSchemaOptions
+) => {
+  const view = new EditorView({ doc, extensions: [bundle(schema, options)] });
+  forceLinting(view);
+  await new Promise((resolve) => setTimeout(resolve));
+  const diagnostics: Diagnostic[] = [];
+  forEachDiagnostic(view.state, (diagnostic) => diagnostics.push(diagnostic));
+  return { view, diagnostics };
+};
+
+describe.each([
+  ["jsonSchema", jsonSchema, '{"other": 1}'],
+  ["json5Schema", json5Schema, "{other: 1}"],
+])("%s validation options", (_name, bundle, doc) => {
+  it("should pass the severity to the linter", async () => {
+    const { diagnostics } = await lint(bundle, doc, {
+      severity: { "no-additional-properties-error": "warning" },
+    });
+    expect(diagnostics.map(({ severity }) => severity)).toEqual(["warning"]);
+  });
+  it("should pass renderError to the linter", async () => {
+    const { view, diagnostics } = await lint(bundle, doc, {
+      renderError: ({ message }) => {
+        const dom = document.createElement("div");
+        dom.textContent = `custom: ${message}`;
+        return dom;
+      },
+    });
+    const dom = diagnostics[0].renderMessage!(view) as HTMLElement;
+    expect(dom.textContent).toEqual(
+      "custom: Additional property `other` in `#` is not allowed"
+    );
+  });
+});
@@ -1,6 +1,22 @@
-import { describe, it } from "vitest";
+import { describe, it, expect } from "vitest";
 
 import { expectCompletion } from "./__helpers__/completion";
+import { resolveExternalRefs } from "../utils/resolveExternalRefs";
+import {
+  completionOptionClass,
+  fillRequiredProperties,
+  JSONCompletion,
+} from "../json-completion";
+import { json5FillRequiredProperties } from "../json5-completion";
+import { parseJSON5DocumentState } from "../utils/parseJSON5Document";
+import { json } from "@codemirror/lang-json";
+import { json5 } from "codemirror-json5";
+import { EditorView } from "@codemirror/view";
+import { CompletionContext, nextSnippetField } from "@codemirror/autocomplete";
+import { indentUnit } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import type { JSONSchema7 } from "json-schema";
+import { externalRefSchema, remoteSchemas } from "./__fixtures__/remoteSchemas";
 
 describe("jsonCompletion", () => {
   it("should return completion data for simple types", async () => {
@@ -37,6 +53,14 @@ describe("jsonCompletion", () => {
         template: '"oneOfObject": #{}',
         type: "property",
       },
+      // matches the `One` segment
+      {
+        detail: "array",
+        info: "",
+        label: "arrayOfOneOf",
+        template: '"arrayOfOneOf": [#{}]',
+        type: "property",
+      },
     ]);
   });
   it("should include defaults for enum when available", async () => {
@@ -110,6 +134,21 @@ describe("jsonCompletion", () => {
         label: "object",
         template: '"object": {#{}}',
       },
+      // matches the `Object` segments
+      {
+        type: "property",
+        detail: "",
+        info: "",
+        label: "oneOfObject",
+        template: '"oneOfObject": #{}',
+      },
+      {
+        type: "property",
+        detail: "array",
+        info: "",
+        label: "arrayOfObjects",
+        template: '"arrayOfObjects": [#{}]',
+      },
     ]);
   });
   // this has regressed for json4 only for some reason
@@ -293,6 +332,34 @@ describe("jsonCompletion", () => {
   });
 });
 
+describe("jsonCompletion with external refs", () => {
+  it("should autocomplete properties from linked external documents", async () => {
+    const schema = await resolveExternalRefs(externalRefSchema, {
+      loadSchema: (uri) => remoteSchemas[uri],
+    });
+    await expectCompletion(
+      '{ "owner": { "|" } }',
+      [
+        {
+          detail: "string",
+          info: "",
+          label: "name",
+          template: '"name": "#{}"',
+          type: "property",
+        },
+        {
+          detail: "",
+          info: "",
+          label: "id",
+          template: '"id": "#{}"',
+          type: "property",
+        },
+      ],
+      { schema }
+    );
+  });
+});
+
 describe("json5Completion", () => {
   it("should return bare property key when no quotes are used", async () => {
     await expectCompletion(
@@ -334,6 +401,13 @@ describe("json5Completion", () => {
           template: "'oneOfObject': #{}",
           type: "property",
         },
+        {
+          detail: "array",
+          info: "",
+          label: "arrayOfOneOf",
+          template: "'arrayOfOneOf': [#{}]",
+          type: "property",
+        },
       ],
       { mode: "json5" }
     );
@@ -462,3 +536,676 @@ describe("json5Completion", () => {
     );
   });
 });
+
+describe("jsonCompletion for deprecated properties", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      apple: { type: "string", deprecated: true },
+      avocado: { type: "string", deprecationMessage: "use `apple`" },
+      banana: { type: "string" },
+    },
+  } as JSONSchema7;
+
+  it("should sort deprecated properties last", async () => {
+    await expectCompletion(
+      '{ "| }',
+      [
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "banana",
+          template: '"banana": "#{}"',
+        },
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "apple",
+          template: '"apple": "#{}"',
+        },
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "avocado",
+          template: '"avocado": "#{}"',
+        },
+      ],
+      { schema }
+    );
+  });
+  it("should strike through deprecated completions", () => {
+    expect(completionOptionClass({ label: "apple", deprecated: true })).toEqual(
+      "cm6-json-schema-completion--deprecated"
+    );
+    expect(completionOptionClass({ label: "banana" })).toEqual("");
+  });
+});
+
+describe("jsonCompletion keyword plugins", () => {
+  it("should suggest values from keyword plugins", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        role: { type: "string", "x-references": "/roles" },
+        roles: { type: "object" },
+      },
+    } as JSONSchema7;
+    await expectCompletion(
+      '{ "roles": { "admin": {}, "editor": {} }, "role": "|" }',
+      [
+        { type: "string", label: '"admin"' },
+        { type: "string", label: '"editor"' },
+      ],
+      {
+        schema,
+        keywords: [
+          {
+            keyword: "x-references",
+            completionValues: ({ keywordValue, data }) =>
+              Object.keys(
+                (data as any)[(keywordValue as string).slice(1)] ?? {}
+              ),
+          },
+        ],
+      }
+    );
+  });
+});
+
+describe("jsonCompletion for conditional schemas", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      kind: { enum: ["a", "b"] },
+      country: { type: "string" },
+      email: { type: "string" },
+    },
+    if: { properties: { kind: { const: "a" } }, required: ["kind"] },
+    then: { properties: { aOnly: { type: "string" } } },
+    else: { properties: { bOnly: { type: "number" } } },
+    dependentSchemas: {
+      country: { properties: { region: { type: "string" } } },
+    },
+    dependentRequired: { email: ["phone"] },
+  } as JSONSchema7;
+
+  it("should suggest the properties of the matching `then`", async () => {
+    await expectCompletion(
+      '{ "kind": "a", "| }',
+      [
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "country",
+          template: '"country": "#{}"',
+        },
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "email",
+          template: '"email": "#{}"',
+        },
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "aOnly",
+          template: '"aOnly": "#{}"',
+        },
+      ],
+      { schema }
+    );
+  });
+  it("should suggest the properties of the `else`", async () => {
+    await expectCompletion(
+      '{ "kind": "b", "| }',
+      [
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "country",
+          template: '"country": "#{}"',
+        },
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "email",
+          template: '"email": "#{}"',
+        },
+        {
+          type: "property",
+          detail: "number",
+          info: "",
+          label: "bOnly",
+          template: '"bOnly": #{0}',
+        },
+      ],
+      { schema }
+    );
+  });
+  it("should suggest the properties of present dependencies", async () => {
+    await expectCompletion(
+      '{ "country": "x", "email": "y", "| }',
+      [
+        {
+          type: "property",
+          detail: undefined,
+          info: undefined,
+          label: "phone",
+          template: '"phone": #{}',
+        },
+        {
+          type: "property",
+          detail: "",
+          info: "",
+          label: "kind",
+          template: '"kind": #{}',
+        },
+        {
+          type: "property",
+          detail: "number",
+          info: "",
+          label: "bOnly",
+          template: '"bOnly": #{0}',
+        },
+        {
+          type: "property",
+          detail: "string",
+          info: "",
+          label: "region",
+          template: '"region": "#{}"',
+        },
+      ],
+      { schema }
+    );
+  });
+});
+
+describe("jsonCompletion for maps", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      scripts: {
+        type: "object",
+        patternProperties: {
+          "^[a-z]+$": { type: "string", description: "a shell command" },
+        },
+      },
+      dependencies: {
+        type: "object",
+        additionalProperties: { $ref: "#/definitions/version" },
+      },
+    },
+    definitions: {
+      version: { type: "string", description: "a semver range" },
+    },
+  } as JSONSchema7;
+
+  it("should suggest a placeholder key for patternProperties", async () => {
+    await expectCompletion(
+      '{ "scripts": { "| } }',
+      [
+        {
+          type: "property",
+          detail: "string",
+          info: "a shell command",
+          label: "/^[a-z]+$/",
+          template: '"#{key}": "#{}"',
+        },
+      ],
+      { schema }
+    );
+  });
+  it("should keep the typed key of the placeholder", async () => {
+    await expectCompletion(
+      '{ "scripts": { "bu| } }',
+      [
+        {
+          type: "property",
+          detail: "string",
+          info: "a shell command",
+          label: "/^[a-z]+$/",
+          template: '"#{bu}": "#{}"',
+        },
+      ],
+      { schema }
+    );
+  });
+  it("should suggest a placeholder key for additionalProperties", async () => {
+    await expectCompletion(
+      '{ "dependencies": { "| } }',
+      [
+        {
+          type: "property",
+          detail: "string",
+          info: "a semver range",
+          label: "any key",
+          template: '"#{key}": "#{}"',
+        },
+      ],
+      { schema }
+    );
+  });
+});
+
+describe("fill in required properties", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      user: { $ref: "#/definitions/user" },
+    },
+    definitions: {
+      user: {
+        allOf: [{ $ref: "#/definitions/named" }],
+        properties: {
+          age: { type: "integer" },
+          role: { enum: ["admin"] },
+          "e-mail": { type: "string", examples: ["a@b.c"] },
+        },
+        required: ["age", "role", "e-mail"],
+      },
+      named: {
+        properties: { name: { type: "string", default: "anonymous" } },
+        required: ["name"],
+      },
+    },
+  } as JSONSchema7;
+
+  it("should suggest to fill in an empty object", async () => {
+    await expectCompletion(
+      '{ "user": {|} }',
+      [
+        {
+          type: "text",
+          detail: undefined,
+          info: undefined,
+          label: "Fill in required properties",
+          template: [
+            "",
+            '\t"age": #{1:0},',
+            '\t"role": "#{2:admin}",',
+            '\t"e-mail": "#{3:a@b.c}",',
+            '\t"name": "#{4:anonymous}"',
+            "",
+          ].join("\n"),
+        },
+      ],
+      { schema, explicit: true }
+    );
+  });
+  it("should suggest to fill in an empty json5 object", async () => {
+    await expectCompletion(
+      "{ user: {|} }",
+      [
+        {
+          type: "text",
+          detail: undefined,
+          info: undefined,
+          label: "Fill in required properties",
+          template: [
+            "",
+            "\tage: #{1:0},",
+            '\trole: "#{2:admin}",',
+            '\t"e-mail": "#{3:a@b.c}",',
+            '\tname: "#{4:anonymous}"',
+            "",
+          ].join("\n"),
+        },
+      ],
+      { schema, explicit: true, mode: "json5" }
+    );
+  });
+});
+
+describe("fillRequiredProperties", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      age: { type: "integer" },
+      tags: { type: "array" },
+    },
+    required: ["name", "age", "tags"],
+  } as JSONSchema7;
+
+  const fill = (doc: string, pos: number, json5Mode = false) => {
+    const view = new EditorView({
+      doc,
+      selection: { anchor: pos },
+      extensions: [json5Mode ? json5() : json()],
+    });
+    const handled = (
+      json5Mode
+        ? json5FillRequiredProperties(schema)
+        : fillRequiredProperties(schema)
+    )(view);
+    return { handled, view };
+  };
+
+  it("should insert the missing properties after the last one", () => {
+    const { handled, view } = fill('{"age": 1}', 1);
+    expect(handled).toBe(true);
+    expect(view.state.doc.toString()).toEqual(
+      '{"age": 1, "name": "", "tags": []}'
+    );
+    // the cursor is in the first value, and tab moves to the next
+    expect(view.state.selection.main.head).toEqual(20);
+    expect(nextSnippetField(view)).toBe(true);
+    expect(view.state.selection.main.head).toEqual(32);
+  });
+  it("should insert the properties on their own lines", () => {
+    const { view } = fill("{}", 1, true);
+    expect(view.state.doc.toString()).toEqual(
+      "{\n  name: '',\n  age: 0,\n  tags: []\n}"
+    );
+  });
+  it("should do nothing when no property is missing", () => {
+    const { handled } = fill('{"age": 1, "name": "a", "tags": []}', 1);
+    expect(handled).toBe(false);
+  });
+  it("should insert defaults that look like snippet fields as they are", () => {
+    const view = new EditorView({
+      doc: "{}",
+      selection: { anchor: 1 },
+      extensions: [json()],
+    });
+    fillRequiredProperties({
+      type: "object",
+      properties: {
+        home: { type: "string", default: "${HOME}/#{x}" },
+        path: { type: "string", default: "C:\\dir" },
+        count: { type: "integer" },
+      },
+      required: ["home", "path", "count"],
+    })(view);
+    const doc = view.state.doc.toString();
+    expect(doc).toEqual(
+      '{\n  "home": "${HOME}/#{x}",\n  "path": "C:\\\\dir",\n  "count": 0\n}'
+    );
+    // the default with braces is text, so the first field is the path
+    const path = doc.indexOf("C:");
+    expect(view.state.selection.main).toMatchObject({
+      from: path,
+      to: path + "C:\\\\dir".length,
+    });
+    expect(nextSnippetField(view)).toBe(true);
+    expect(view.state.sliceDoc(view.state.selection.main.from)).toEqual("0\n}");
+  });
+  it("should only insert the properties of the matched branch", () => {
+    const view = new EditorView({
+      doc: '{"conf":{"kind":"s3"}}',
+      selection: { anchor: 9 },
+      extensions: [json()],
+    });
+    fillRequiredProperties({
+      type: "object",
+      properties: {
+        conf: {
+          oneOf: [
+            {
+              type: "object",
+              properties: {
+                kind: { const: "s3" },
+                bucket: { type: "string" },
+              },
+              required: ["kind", "bucket"],
+            },
+            {
+              type: "object",
+              properties: {
+                kind: { const: "local" },
+                path: { type: "string" },
+              },
+              required: ["kind", "path"],
+            },
+          ],
+        },
+      },
+    })(view);
+    expect(view.state.doc.toString()).toEqual(
+      '{"conf":{"kind":"s3", "bucket": ""}}'
+    );
+  });
+});
+
+describe("jsonCompletion skeletonDepth", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      server: { $ref: "#/definitions/server" },
+    },
+    definitions: {
+      server: {
+        type: "object",
+        properties: {
+          port: { type: "integer" },
+          tls: {
+            type: "object",
+            properties: { cert: { type: "string" }, key: { type: "string" } },
+            required: ["cert"],
+          },
+          fallback: { $ref: "#/definitions/server" },
+        },
+        required: ["port", "tls", "fallback"],
+      },
+    },
+  } as JSONSchema7;
+
+  it("should expand the required sub-objects", async () => {
+    await expectCompletion(
+      '{ "s| }',
+      [
+        {
+          type: "property",
+          detail: "",
+          info: "",
+          label: "server",
+          template: [
+            '"server": {',
+            '\t"port": #{1:0},',
+            '\t"tls": {',
+            '\t\t"cert": "#{2:}"',
+            "\t},",
+            '\t"fallback": {#{3:}}',
+            "}",
+          ].join("\n"),
+        },
+      ],
+      { schema, skeletonDepth: 2 }
+    );
+  });
+  it("should stop at the depth", async () => {
+    await expectCompletion(
+      '{ "s| }',
+      [
+        {
+          type: "property",
+          detail: "",
+          info: "",
+          label: "server",
+          template: [
+            '"server": {',
+            '\t"port": #{1:0},',
+            '\t"tls": {#{2:}},',
+            '\t"fallback": {#{3:}}',
+            "}",
+          ].join("\n"),
+        },
+      ],
+      { schema, skeletonDepth: 1 }
+    );
+  });
+  it("should indent the skeleton with the indent unit", () => {
+    const doc = '{\n  "s\n}';
+    const view = new EditorView({
+      doc,
+      extensions: [json(), indentUnit.of("    ")],
+    });
+    const pos = doc.indexOf("s") + 1;
+    const result = new JSONCompletion(schema, {
+      skeletonDepth: 1,
+    }).doComplete(new CompletionContext(view.state, pos, false));
+    const completion = result.options[0];
+    (completion.apply as Function)(view, completion, result.from, result.to);
+    expect(view.state.doc.toString()).toEqual(
+      [
+        "{",
+        '  "server": {',
+        '      "port": 0,',
+        '      "tls": {},',
+        '      "fallback": {}',
+        "  }",
+        "}",
+      ].join("\n")
+    );
+  });
+  it("should stop at recursive $refs", async () => {
+    await expectCompletion(
+      '{ "s| }',
+      [
+        {
+          type: "property",
+          detail: "",
+          info: "",
+          label: "server",
+          template: [
+            '"server": {',
+            '\t"port": #{1:0},',
+            '\t"tls": {',
+            '\t\t"cert": "#{2:}"',
+            "\t},",
+            '\t"fallback": {#{3:}}',
+            "}",
+          ].join("\n"),
+        },
+      ],
+      { schema, skeletonDepth: 5 }
+    );
+  });
+});
+
+describe("jsonCompletion ranking", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      shape: {
+        type: "object",
+        properties: {
+          color: { type: "string" },
+          legacy: { type: "string", deprecated: true },
+          name: { type: "string" },
+        },
+        required: ["name"],
+        oneOf: [
+          {
+            properties: {
+              kind: { const: "circle" },
+              radius: { type: "number" },
+            },
+            required: ["kind", "radius"],
+          },
+          {
+            properties: {
+              kind: { const: "square" },
+              size: { type: "number" },
+              rounded: { type: "boolean" },
+            },
+            required: ["kind", "size"],
+          },
+        ],
+      },
+    },
+  } as JSONSchema7;
+
+  const complete = (doc: string) => {
+    const pos = doc.indexOf("|");
+    doc = doc.slice(0, pos) + doc.slice(pos + 1);
+    const state = EditorState.create({ doc, extensions: [json()] });
+    return new JSONCompletion(schema, {})
+      .doComplete(new CompletionContext(state, pos, false))
+      .options.map(({ label, section }) => [
+        label,
+        typeof section === "object" ? section.name : section,
+      ]);
+  };
+
+  it("should put required properties first and deprecated ones last", () => {
+    expect(complete('{ "shape": { "| } }')).toEqual([
+      ["name", "Required"],
+      ["color", "Optional"],
+      ["kind", "Optional"],
+      ["radius", "Optional"],
+      ["size", "Optional"],
+      ["rounded", "Optional"],
+      ["legacy", "Deprecated"],
+    ]);
+  });
+  it("should put the properties of the matching branch ahead", () => {
+    expect(complete('{ "shape": { "kind": "square", "| } }')).toEqual([
+      ["name", "Required"],
+      ["size", "Required"],
+      ["rounded", "From oneOf #2"],
+      ["color", "Optional"],
+      ["radius", "Optional"],
+      ["legacy", "Deprecated"],
+    ]);
+  });
+});
+
+describe("jsonCompletion fuzzy matching", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      dependencies: { type: "object" },
+      description: { type: "string" },
+      devDependencies: { type: "object" },
+      license: { enum: ["MIT", "Apache-2.0"] },
+    },
+  } as JSONSchema7;
+
+  const complete = (doc: string, mode: "json" | "json5" = "json") => {
+    const pos = doc.indexOf("|");
+    doc = doc.slice(0, pos) + doc.slice(pos + 1);
+    const state = EditorState.create({
+      doc,
+      extensions: [mode === "json5" ? json5() : json()],
+    });
+    const result = new JSONCompletion(schema, {
+      mode,
+      ...(mode === "json5" ? { jsonParser: parseJSON5DocumentState } : {}),
+    }).doComplete(new CompletionContext(state, pos, false));
+    return result.options.map((option) => [
+      option.label,
+      result.getMatch?.(option),
+    ]);
+  };
+
+  it("should match camelCase segments of keys", () => {
+    expect(complete('{ "devdep| }')).toEqual([["devDependencies", [0, 6]]]);
+    expect(complete('{ "Deps| }')).toEqual([
+      ["dependencies", [0, 3, 11, 12]],
+      ["devDependencies", [3, 6, 14, 15]],
+    ]);
+  });
+  it("should match json5 keys", () => {
+    expect(complete("{ deps| }", "json5")).toEqual([
+      ["dependencies", [0, 3, 11, 12]],
+      ["devDependencies", [3, 6, 14, 15]],
+    ]);
+  });
+  it("should match values case-insensitively", () => {
+    expect(complete('{ "license": "apa| }')).toEqual([
+      ['"Apache-2.0"', [1, 4]],
+    ]);
+    expect(complete("{ license: 'apa|' }", "json5")).toEqual([
+      ['"Apache-2.0"', [1, 4]],
+    ]);
+  });
+});
@@ -60,6 +60,42 @@ describe("JSONHover#getDataForCursor", () => {
   });
 });
 
+describe("JSONHover#getDataForCursor with invalid json", () => {
+  const discriminatedSchema = {
+    oneOf: [
+      {
+        type: "object",
+        properties: {
+          kind: { const: "a" },
+          value: { type: "string", description: "a value" },
+        },
+        required: ["kind"],
+      },
+      {
+        type: "object",
+        properties: {
+          kind: { const: "b" },
+          value: { type: "number", description: "b value" },
+        },
+        required: ["kind"],
+      },
+    ],
+  } as JSONSchema7;
+
+  it("should resolve oneOf schemas from the valid parts of the document", () => {
+    expect(
+      getHoverData(
+        '{"kind": "b", "value": 1, "broken": }',
+        16,
+        discriminatedSchema
+      )
+    ).toEqual({
+      pointer: "/value",
+      schema: { type: "number", description: "b value" },
+    });
+  });
+});
+
 describe("JSONHover#getHoverTexts", () => {
   it("should provide oneOf texts despite invalid values", async () => {
     const hoverTexts = await getHoverTexts(
@@ -124,3 +160,144 @@ describe("JSONHover#doHover", () => {
     expect(hoverEl).not.toContain("cm6-json-schema-hover--description");
   });
 });
+
+describe("JSONHover for deprecated properties", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      legacy: {
+        type: "string",
+        description: "the old name",
+        deprecationMessage: "use `name` instead",
+      } as JSONSchema7,
+      old: { type: "string", deprecated: true } as JSONSchema7,
+    },
+  };
+
+  it("should return the deprecation message", async () => {
+    expect(await getHoverTexts('{"legacy": "a"}', 3, schema)).toEqual({
+      message: "the old name",
+      typeInfo: "string",
+      deprecationMessage: "use `name` instead",
+    });
+    expect(await getHoverTexts('{"old": "a"}', 3, schema)).toEqual({
+      message: null,
+      typeInfo: "string",
+      deprecationMessage: "`old` is deprecated",
+    });
+  });
+  it("should show the deprecation message at the top of the tooltip", async () => {
+    const hoverResult = await getHoverResult('{"legacy": "a"}', 3, schema);
+    const hoverEl = hoverResult?.create(new EditorView({})).dom;
+    expect(hoverEl).toContainHTML(
+      [
+        `<div class="cm6-json-schema-hover"><div class="cm6-json-schema-hover--deprecated">use \`name\` instead</div>`,
+        `<div class="cm6-json-schema-hover--description">the old name</div>`,
+        `<div class="cm6-json-schema-hover--code-wrapper"><code class="cm6-json-schema-hover--code">string</code></div></div>`,
+      ].join("")
+    );
+  });
+});
+
+describe("JSONHover for conditional schemas", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      kind: { enum: ["a", "b"] },
+      country: { type: "string" },
+    },
+    if: { properties: { kind: { const: "a" } }, required: ["kind"] },
+    then: {
+      properties: { extra: { type: "string", description: "only for a" } },
+    },
+    else: {
+      properties: { extra: { type: "number", description: "only for b" } },
+    },
+    dependentSchemas: {
+      country: {
+        properties: {
+          region: { type: "string", description: "the region of the country" },
+        },
+      },
+    },
+  } as JSONSchema7;
+
+  it("should describe the properties of the matching branch", async () => {
+    expect(
+      await getHoverTexts('{"kind": "a", "extra": "x"}', 16, schema)
+    ).toEqual({ message: "only for a", typeInfo: "string" });
+    expect(
+      await getHoverTexts('{"kind": "b", "extra": 1}', 16, schema)
+    ).toEqual({ message: "only for b", typeInfo: "number" });
+  });
+  it("should describe the properties of dependent schemas", async () => {
+    expect(
+      await getHoverTexts('{"country": "x", "region": "y"}', 19, schema)
+    ).toEqual({ message: "the region of the country", typeInfo: "string" });
+  });
+});
+
+describe("JSONHover keyword plugins", () => {
+  it("should add hover texts from keyword plugins", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        role: {
+          type: "string",
+          description: "the user role",
+          "x-references": "/roles",
+        },
+      },
+    } as JSONSchema7;
+    const view = new EditorView({
+      doc: '{"role": "admin", "roles": {"admin": {}}}',
+      extensions: [json()],
+    });
+    const hover = new JSONHover(schema, {
+      keywords: [
+        {
+          keyword: "x-references",
+          hoverText: ({ keywordValue, value, data }) =>
+            `references \`${keywordValue}/${value}\` of ${
+              Object.keys((data as any).roles).length
+            }`,
+        },
+      ],
+    });
+    const data = hover.getDataForCursor(view, 3, 1) as FoundCursorData;
+    expect(hover.getHoverTexts(data, hover.schema as Draft)).toEqual({
+      message: "the user role\n\nreferences `/roles/admin` of 1",
+      typeInfo: "string",
+    });
+  });
+});
+
+describe("JSONHover locale", () => {
+  it("should join types for the locale", () => {
+    const schema: JSONSchema7 = {
+      type: "object",
+      properties: { id: { type: ["string", "number"] } },
+    };
+    const view = new EditorView({ doc: '{"id": 1}', extensions: [json()] });
+    const hover = new JSONHover(schema, {
+      locale: "de",
+      messages: { deprecated: "Veraltet" },
+    });
+    const data = hover.getDataForCursor(view, 3, 1) as FoundCursorData;
+    expect(hover.getHoverTexts(data, hover.schema as Draft).typeInfo).toEqual(
+      "`string` oder `number`"
+    );
+  });
+  it("should join types in english without a catalog", () => {
+    const schema: JSONSchema7 = {
+      type: "object",
+      properties: { id: { type: ["string", "number"] } },
+    };
+    const view = new EditorView({ doc: '{"id": 1}', extensions: [json()] });
+    const hover = new JSONHover(schema, { locale: "de" });
+    const data = hover.getDataForCursor(view, 3, 1) as FoundCursorData;
+    expect(hover.getHoverTexts(data, hover.schema as Draft).typeInfo).toEqual(
+      "`string` or `number`"
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import type { JSONSchema7 } from "json-schema";
+import { json } from "@codemirror/lang-json";
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import {
+  CompletionContext,
+  type CompletionResult,
+} from "@codemirror/autocomplete";
+import {
+  jsonLinesCompletion,
+  jsonLinesParseLinter,
+  jsonLinesSchema,
+  jsonLinesSchemaHover,
+  jsonLinesSchemaLinter,
+} from "../json-lines";
+
+const schema: JSONSchema7 = {
+  type: "object",
+  properties: {
+    type: { type: "string" },
+    message: { type: "string", description: "the log message" },
+  },
+  required: ["message"],
+};
+
+const clickSchema: JSONSchema7 = {
+  type: "object",
+  properties: {
+    type: { const: "click" },
+    target: { type: "string", description: "the clicked element" },
+  },
+  required: ["target"],
+  additionalProperties: false,
+};
+
+const lineOptions = {
+  discriminator: "type",
+  lineSchemas: { click: clickSchema },
+};
+
+const createView = (doc: string) =>
+  new EditorView({ doc, extensions: [json()] });
+
+const lint = (doc: string) =>
+  jsonLinesSchemaLinter(
+    schema,
+    lineOptions
+  )(createView(doc)).map(({ from, to, message }) => ({ from, to, message }));
+
+describe("jsonLinesSchemaLinter", () => {
+  it("should validate each line as a document of its own", () => {
+    expect(lint('{"message": "a"}\n{"message": 1}\n\n{ }')).toEqual([
+      { from: 29, to: 30, message: "Expected `string` but received `number`" },
+      {
+        from: 33,
+        to: 36,
+        message: "The required property `message` is missing at `4`",
+      },
+    ]);
+  });
+  it("should validate lines against the schema of their discriminator", () => {
+    expect(lint('{"type": "click"}\n{"type": "log", "message": "a"}')).toEqual([
+      {
+        from: 0,
+        to: 17,
+        message: "The required property `target` is missing at `1`",
+      },
+    ]);
+  });
+  it("should describe errors from the schema of their own line", () => {
+    const view = createView('{"type": "click", "target": 1}\n{"message": 1}');
+    const descriptions = jsonLinesSchemaLinter(
+      schema,
+      lineOptions
+    )(view).map(
+      (diagnostic) =>
+        (diagnostic.renderMessage!(view) as HTMLElement).querySelector(
+          ".cm6-json-schema-error--description"
+        )?.textContent
+    );
+    expect(descriptions).toEqual(["the clicked element", "the log message"]);
+  });
+});
+
+describe("jsonLinesSchemaLinter long and repeated lines", () => {
+  it("should validate long lines in full", () => {
+    const words = Array.from({ length: 500 }, (_, i) => `"word${i}"`);
+    const line = `{"words": [${words.join(",")}], "message": 1}`;
+    expect(line.length).toBeGreaterThan(3000);
+    expect(lint(`{"message": "a"}\n${line}`)).toEqual([
+      {
+        from: 17 + line.length - 2,
+        to: 17 + line.length - 1,
+        message: "Expected `string` but received `number`",
+      },
+    ]);
+  });
+  it("should report the same line at each of its positions", () => {
+    expect(lint('{"message": 1}\n{"message": 1}')).toEqual([
+      { from: 12, to: 13, message: "Expected `string` but received `number`" },
+      { from: 27, to: 28, message: "Expected `string` but received `number`" },
+    ]);
+  });
+});
+
+describe("jsonLinesParseLinter", () => {
+  it("should report syntax errors in each line", () => {
+    const diagnostics = jsonLinesParseLinter()(
+      createView('{"message": "a"}\n{"message": }\n{"message": "b"}')
+    );
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].from).toBeGreaterThanOrEqual(17);
+    expect(diagnostics[0].from).toBeLessThanOrEqual(30);
+  });
+});
+
+describe("jsonLinesSchemaHover", () => {
+  it("should describe properties in any line", async () => {
+    const doc = '{"message": "a"}\n{"type": "click", "target": "#b"}';
+    const pos = doc.indexOf("target") + 1;
+    const tooltip = await jsonLinesSchemaHover(schema, lineOptions)(
+      createView(doc),
+      pos,
+      1
+    );
+    expect(tooltip?.pos).toEqual(pos);
+    const dom = tooltip?.create(createView(doc)).dom as HTMLElement;
+    expect(dom.textContent).toContain("the clicked element");
+  });
+});
+
+describe("jsonLinesCompletion", () => {
+  it("should complete properties in any line", () => {
+    const doc = '{"message": "a"}\n{"type": "click", ""}';
+    const pos = doc.length - 2;
+    const result = jsonLinesCompletion(
+      schema,
+      lineOptions
+    )(new CompletionContext(EditorState.create({ doc }), pos, true));
+    expect(result?.from).toEqual(pos - 1);
+    expect(result?.options.map(({ label }) => label)).toEqual(["target"]);
+  });
+  it("should pass the completion options of jsonLinesSchema", () => {
+    const doc = '{"message": "a"}\n{""}';
+    const pos = doc.length - 2;
+    const view = new EditorView({
+      doc,
+      extensions: [
+        jsonLinesSchema(
+          {
+            type: "object",
+            properties: {
+              server: {
+                type: "object",
+                properties: { port: { type: "integer" } },
+                required: ["port"],
+              },
+            },
+          },
+          { completion: { skeletonDepth: 1 } }
+        ),
+      ],
+    });
+    const [complete] = view.state.languageDataAt<
+      (ctx: CompletionContext) => CompletionResult | null
+    >("autocomplete", pos);
+    const result = complete(new CompletionContext(view.state, pos, true))!;
+    const [option] = result.options;
+    if (typeof option.apply === "function") {
+      option.apply(view, option, result.from, result.to ?? pos);
+    }
+    expect(view.state.doc.toString()).toEqual(
+      '{"message": "a"}\n{"server": {\n  "port": 0\n}}'
+    );
+  });
+});
@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import type { JSONSchema7 } from "json-schema";
+import { validateJSONText } from "../json-text-validation";
+
+const schema: JSONSchema7 = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+  },
+  additionalProperties: false,
+};
+
+describe("validateJSONText", () => {
+  it("should run without a DOM", () => {
+    expect(typeof document).toEqual("undefined");
+  });
+  it("should return positioned diagnostics for json", () => {
+    expect(validateJSONText('{\n  "name": 1\n}', schema)).toEqual([
+      {
+        from: 12,
+        to: 13,
+        line: 2,
+        column: 11,
+        endLine: 2,
+        endColumn: 12,
+        severity: "error",
+        message: "Expected `string` but received `number`",
+        source: "json-schema",
+      },
+    ]);
+  });
+  it("should validate json5", () => {
+    expect(
+      validateJSONText("{name: 'a', other: 1}", schema, { mode: "json5" })
+    ).toMatchObject([
+      {
+        line: 1,
+        column: 13,
+        message: "Additional property `other` in `#` is not allowed",
+      },
+    ]);
+  });
+  it("should report syntax errors", () => {
+    const [diagnostic] = validateJSONText('{"name": }', schema);
+    expect(diagnostic).toMatchObject({ line: 1, severity: "error" });
+  });
+  it("should report json5 syntax errors at their line and column", () => {
+    const [diagnostic] = validateJSONText("{\n  name: }", schema, {
+      mode: "json5",
+    });
+    expect(diagnostic).toMatchObject({
+      line: 2,
+      column: 9,
+      message: "JSON5: invalid character '}' at 2:9",
+    });
+  });
+  it("should pass validation options", () => {
+    expect(
+      validateJSONText('{"other": 1}', schema, {
+        severity: { "no-additional-properties-error": "warning" },
+      }).map(({ severity }) => severity)
+    ).toEqual(["warning"]);
+  });
+  it("should validate past the first kilobytes of the text", () => {
+    const items = Array.from({ length: 400 }, (_, i) => `"item${i}"`);
+    const text = `{"list": [${items.join(",")}], "name": 1}`;
+    expect(text.length).toBeGreaterThan(3000);
+    expect(
+      validateJSONText(text, {
+        ...schema,
+        properties: { ...schema.properties, list: { type: "array" } },
+      })
+    ).toMatchObject([
+      {
+        message: "Expected `string` but received `number`",
+        column: text.length - 1,
+      },
+    ]);
+  });
+  it("should report text that isn't parsed within the timeout", () => {
+    const items = Array.from({ length: 5000 }, (_, i) => `"item${i}"`);
+    expect(
+      validateJSONText(`[${items.join(",")}]`, schema, { timeout: -1 })
+    ).toMatchObject([
+      {
+        line: 1,
+        column: 1,
+        message: "The document could not be parsed within -1ms",
+      },
+    ]);
+  });
+  it("should return nothing for valid documents", () => {
+    expect(validateJSONText('{"name": "a"}', schema)).toEqual([]);
+  });
+});
@@ -1,11 +1,18 @@
 import { JSONSchema7 } from "json-schema";
-import { JSONValidation } from "../json-validation";
+import { JSONValidation, type JSONValidationOptions } from "../json-validation";
 import type { Diagnostic } from "@codemirror/lint";
 import { describe, it, expect } from "vitest";
 import { json } from "@codemirror/lang-json";
+import { json5 } from "codemirror-json5";
 import { EditorView } from "@codemirror/view";
+import { history, undo, undoDepth } from "@codemirror/commands";
+import { getJSONSchema, stateExtensions, updateSchema } from "../state";
+import { refLoader } from "../ref-loader";
+import { parseJSON5DocumentState } from "../utils/parseJSON5Document";
+import type { KeywordPlugin } from "../utils/keywordPlugins";
 
 import { testSchema, testSchema2 } from "./__fixtures__/schemas";
+import { externalRefSchema, remoteSchemas } from "./__fixtures__/remoteSchemas";
 
 const getErrors = (jsonString: string, schema?: JSONSchema7) => {
   const view = new EditorView({ doc: jsonString, extensions: [json()] });
@@ -16,7 +23,11 @@ const expectErrors = (
   errors: [from: number, to: number, message: string][],
   schema?: JSONSchema7
 ) => {
-  expect(getErrors(jsonString, schema)).toEqual(
+  // quick fixes and rendering are covered separately
+  const diagnostics = getErrors(jsonString, schema).map(
+    ({ actions, renderMessage, ...diagnostic }) => diagnostic
+  );
+  expect(diagnostics).toEqual(
     errors.map(([from, to, message]) => ({ ...common, from, to, message }))
   );
 };
@@ -37,8 +48,15 @@ describe("json-validation", () => {
       [19, 24, "Additional property `bar` in `#` is not allowed"],
     ]);
   });
-  it("should not handle invalid json", () => {
-    expectErrors('{"foo": "example" "bar": 123}', []);
+  it("should validate the valid parts of invalid json", () => {
+    expectErrors('{"foo": "example" "bar": 123}', [
+      [18, 23, "Additional property `bar` in `#` is not allowed"],
+    ]);
+  });
+  it("should skip invalid values of invalid json", () => {
+    expectErrors('{"foo": 123, "bar": }', [
+      [8, 11, "Expected `string` but received `number`"],
+    ]);
   });
   it("should provide range for invalid multline json", () => {
     expectErrors(
@@ -55,7 +73,10 @@ describe("json-validation", () => {
         "foo": "example",
     "oneOfEg": 123
   }`,
-      [[43, 46, 'Expected one of `"string"`, `"array"`, or `"boolean"`']],
+      [
+        [43, 46, 'Expected one of `"string"`, `"array"`, or `"boolean"`'],
+        [0, 50, "The required property `object.foo` is missing at `#`"],
+      ],
       testSchema2
     );
   });
@@ -65,8 +86,725 @@ describe("json-validation", () => {
         "foo": "example",
     "oneOfEg2": 123
   }`,
-      [[44, 47, 'Expected one of `"string"` or `"array"`']],
+      [
+        [44, 47, 'Expected one of `"string"` or `"array"`'],
+        [0, 51, "The required property `object.foo` is missing at `#`"],
+      ],
       testSchema2
     );
   });
 });
+
+describe("json-validation for array items and the root", () => {
+  it("should provide range for a root required error", () => {
+    expectErrors("{ }", [
+      [0, 3, "The required property `foo` is missing at `#`"],
+    ]);
+  });
+  it("should provide range for an array item error", () => {
+    expectErrors(
+      '{"items": [1, 2, "three"]}',
+      [[17, 24, "Expected `number` but received `string`"]],
+      {
+        type: "object",
+        properties: { items: { type: "array", items: { type: "number" } } },
+      }
+    );
+  });
+  it("should keep the errors of the items after an unparsed item", () => {
+    // `.e1` is a number node with no value
+    const view = new EditorView({
+      doc: "{items: [1, .e1, 'three']}",
+      extensions: [json5()],
+    });
+    const diagnostics = new JSONValidation(
+      {
+        type: "object",
+        properties: { items: { type: "array", items: { type: "number" } } },
+      },
+      { jsonParser: parseJSON5DocumentState }
+    ).doValidation(view);
+    expect(
+      diagnostics.map(({ from, to, message }) => [from, to, message])
+    ).toEqual([[17, 24, "Expected `number` but received `string`"]]);
+  });
+});
+
+describe("json-validation with updateSchema", () => {
+  const createView = (jsonString: string) =>
+    new EditorView({
+      doc: jsonString,
+      selection: { anchor: 3 },
+      extensions: [json(), history(), stateExtensions(testSchema)],
+    });
+
+  it("should read the schema from the state field", () => {
+    const view = createView('{"foo": 123}');
+    expect(new JSONValidation().doValidation(view)).toEqual([
+      {
+        ...common,
+        from: 8,
+        to: 11,
+        message: "Expected `string` but received `number`",
+        renderMessage: expect.any(Function),
+      },
+    ]);
+  });
+  it("should validate against the updated schema", () => {
+    const view = createView('{"foo": 123}');
+    const validation = new JSONValidation();
+    expect(validation.doValidation(view)).toHaveLength(1);
+    updateSchema(view, {
+      type: "object",
+      properties: { foo: { type: "number" } },
+    });
+    expect(validation.doValidation(view)).toEqual([]);
+  });
+  it("should leave the selection and undo history alone", () => {
+    const view = createView('{"foo": 123}');
+    updateSchema(view, testSchema2);
+    expect(getJSONSchema(view.state)).toEqual(testSchema2);
+    expect(view.state.selection.main.anchor).toEqual(3);
+    expect(undoDepth(view.state)).toEqual(0);
+  });
+  it("should prefer the state field over the constructor schema", () => {
+    const view = createView('{"foo": 123}');
+    updateSchema(view, { type: "object" });
+    expect(new JSONValidation(testSchema).doValidation(view)).toEqual([]);
+  });
+});
+
+describe("json-validation drafts", () => {
+  // `exclusiveMaximum` is a number since draft-06, and a boolean in draft-04
+  const exclusiveMaximumSchema = (draft: string) =>
+    ({
+      $schema: `http://json-schema.org/${draft}/schema#`,
+      type: "object",
+      properties: {
+        count: { type: "number", exclusiveMaximum: 5 },
+      },
+    } as JSONSchema7);
+
+  it("should validate with the draft from $schema", () => {
+    expect(
+      getErrors('{"count": 5}', exclusiveMaximumSchema("draft-07"))
+    ).toHaveLength(1);
+    expect(
+      getErrors('{"count": 5}', exclusiveMaximumSchema("draft-04"))
+    ).toEqual([]);
+  });
+  it("should validate with the draft override", () => {
+    const view = new EditorView({
+      doc: '{"count": 5}',
+      extensions: [json()],
+    });
+    const errors = new JSONValidation(exclusiveMaximumSchema("draft-07"), {
+      draft: "draft-04",
+    }).doValidation(view);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe("json-validation with refLoader", () => {
+  it("should validate against external refs once they are loaded", async () => {
+    const view = new EditorView({
+      doc: '{"id": 123}',
+      extensions: [
+        json(),
+        stateExtensions(externalRefSchema),
+        refLoader({ loadSchema: (uri) => remoteSchemas[uri] }),
+      ],
+    });
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(new JSONValidation().doValidation(view)).toEqual([
+      {
+        ...common,
+        from: 7,
+        to: 10,
+        message: "Expected `string` but received `number`",
+        renderMessage: expect.any(Function),
+      },
+    ]);
+  });
+});
+
+describe("json-validation severity", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      legacy: { type: "string", "x-severity": "hint" } as JSONSchema7,
+    },
+    additionalProperties: false,
+  };
+  const getSeverities = (
+    doc: string,
+    options?: JSONValidationOptions,
+    jsonSchema = schema
+  ) => {
+    const view = new EditorView({ doc, extensions: [json()] });
+    return new JSONValidation(jsonSchema, options)
+      .doValidation(view)
+      .map((d) => [d.message, d.severity]);
+  };
+
+  it("should map error codes to severities", () => {
+    expect(
+      getSeverities('{"name": 1, "other": 1}', {
+        severity: { "no-additional-properties-error": "warning" },
+      })
+    ).toEqual([
+      ["Additional property `other` in `#` is not allowed", "warning"],
+      ["Expected `string` but received `number`", "error"],
+    ]);
+  });
+  it("should suppress error codes that are off", () => {
+    expect(
+      getSeverities('{"name": 1, "other": 1}', {
+        severity: { "type-error": "off" },
+      })
+    ).toEqual([["Additional property `other` in `#` is not allowed", "error"]]);
+  });
+  it("should read the severity from x-severity on the failing node", () => {
+    expect(
+      getSeverities('{"legacy": 1}', {
+        severity: { "type-error": "warning" },
+      })
+    ).toEqual([["Expected `string` but received `number`", "hint"]]);
+  });
+  it("should read x-severity maps of error codes", () => {
+    const mapSchema = {
+      ...schema,
+      "x-severity": { "no-additional-properties-error": "info" },
+    } as JSONSchema7;
+    expect(getSeverities('{"name": 1, "other": 1}', {}, mapSchema)).toEqual([
+      ["Additional property `other` in `#` is not allowed", "info"],
+      ["Expected `string` but received `number`", "error"],
+    ]);
+  });
+});
+
+describe("json-validation for deprecated properties", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      legacy: {
+        type: "string",
+        deprecationMessage: "use `name`, see https://example.com/name",
+      } as JSONSchema7,
+      nested: {
+        type: "object",
+        properties: {
+          old: { type: "number", deprecated: true } as JSONSchema7,
+        },
+      },
+    },
+  };
+
+  it("should warn on the key of deprecated properties", () => {
+    const view = new EditorView({
+      doc: '{"name": "a", "legacy": "b", "nested": {"old": 1}}',
+      extensions: [json()],
+    });
+    expect(
+      new JSONValidation(schema)
+        .doValidation(view)
+        .map(({ from, to, message, severity }) => ({
+          from,
+          to,
+          message,
+          severity,
+        }))
+    ).toEqual([
+      {
+        from: 14,
+        to: 22,
+        message: "use `name`, see https://example.com/name",
+        severity: "warning",
+      },
+      {
+        from: 40,
+        to: 45,
+        message: "`old` is deprecated",
+        severity: "warning",
+      },
+    ]);
+  });
+  it("should not warn about deprecated properties that are absent", () => {
+    expectErrors('{"name": "a"}', [], schema);
+  });
+  it("should suppress deprecation warnings with the severity option", () => {
+    const view = new EditorView({
+      doc: '{"legacy": "b"}',
+      extensions: [json()],
+    });
+    expect(
+      new JSONValidation(schema, {
+        severity: { "deprecated-property-warning": "off" },
+      }).doValidation(view)
+    ).toEqual([]);
+  });
+});
+
+describe("json-validation formats", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      homepage: { type: "string", format: "uri" },
+      version: { type: "string", format: "semver" },
+    },
+  };
+
+  it("should report built-in format errors on the value", () => {
+    expectErrors(
+      '{"id": "abc", "homepage": "example.com/a"}',
+      [
+        [7, 12, "Expected format `uuid` but received `abc`"],
+        [26, 41, "Expected format `uri` but received `example.com/a`"],
+      ],
+      schema
+    );
+  });
+  it("should validate custom formats", () => {
+    const view = new EditorView({
+      doc: '{"version": "1.2"}',
+      extensions: [json()],
+    });
+    const validation = new JSONValidation(schema, {
+      formats: { semver: (value) => /^\d+\.\d+\.\d+$/.test(value) },
+    });
+    expect(validation.doValidation(view).map((d) => d.message)).toEqual([
+      "Expected format `semver` but received `1.2`",
+    ]);
+    // other linters for the same schema don't see the custom format
+    expect(new JSONValidation(schema).doValidation(view)).toEqual([]);
+  });
+});
+
+describe("json-validation keyword plugins", () => {
+  const uniqueBy: KeywordPlugin = {
+    keyword: "x-unique-by",
+    validate: ({ keywordValue, value, pointer }) => {
+      if (!Array.isArray(value)) {
+        return [];
+      }
+      const key = keywordValue as string;
+      const seen = new Set();
+      return value.flatMap((item, i) => {
+        if (!seen.has(item[key])) {
+          seen.add(item[key]);
+          return [];
+        }
+        return [
+          {
+            message: `Duplicate \`${key}\` \`${item[key]}\``,
+            pointer: `${pointer}/${i}/${key}`,
+          },
+        ];
+      });
+    },
+  };
+  const schema = {
+    type: "object",
+    properties: {
+      users: {
+        type: "array",
+        items: { type: "object" },
+        "x-unique-by": "id",
+      },
+    },
+  } as JSONSchema7;
+  const validate = (doc: string, options?: JSONValidationOptions) => {
+    const view = new EditorView({ doc, extensions: [json()] });
+    return new JSONValidation(schema, options)
+      .doValidation(view)
+      .map(({ from, to, message, severity }) => ({
+        from,
+        to,
+        message,
+        severity,
+      }));
+  };
+  const doc = '{"users": [{"id": 1}, {"id": 2}, {"id": 1}]}';
+
+  it("should report plugin errors through the pointer map", () => {
+    expect(validate(doc, { keywords: [uniqueBy] })).toEqual([
+      { from: 40, to: 41, message: "Duplicate `id` `1`", severity: "error" },
+    ]);
+  });
+  it("should ignore keywords without a plugin", () => {
+    expect(validate(doc)).toEqual([]);
+  });
+  it("should map plugin errors with the severity option", () => {
+    expect(
+      validate(doc, {
+        keywords: [uniqueBy],
+        severity: { "x-unique-by-error": "warning" },
+      })
+    ).toEqual([
+      { from: 40, to: 41, message: "Duplicate `id` `1`", severity: "warning" },
+    ]);
+  });
+});
+
+describe("json-validation messages", () => {
+  const getMessages = (doc: string, options: JSONValidationOptions) => {
+    const view = new EditorView({ doc, extensions: [json()] });
+    return new JSONValidation(schema, options)
+      .doValidation(view)
+      .map((d) => d.message);
+  };
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      foo: { type: "string" },
+      oneOfEg: {
+        oneOf: [{ type: "string" }, { type: "array" }, { type: "boolean" }],
+      },
+    },
+  };
+
+  it("should join lists for the locale of the catalog", () => {
+    expect(
+      getMessages('{"foo": "a", "oneOfEg": 1}', {
+        locale: "de",
+        messages: { "one-of-error": "Erwartet: {{expected}}" },
+      })
+    ).toEqual(['Erwartet: `"string"`, `"array"` oder `"boolean"`']);
+  });
+  it("should join the lists of the default messages in english", () => {
+    expect(
+      getMessages('{"foo": "a", "oneOfEg": 1}', {
+        locale: "de",
+      })
+    ).toEqual(['Expected one of `"string"`, `"array"`, or `"boolean"`']);
+  });
+  it("should render messages from the catalog by error code", () => {
+    expect(
+      getMessages('{"foo": 1}', {
+        locale: "de",
+        messages: {
+          "type-error": "{{expected}} erwartet, aber `{{received}}` erhalten",
+        },
+      })
+    ).toEqual(["`string` erwartet, aber `number` erhalten"]);
+  });
+});
+
+describe("json-validation rendered messages", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "the package name" },
+    },
+    required: ["name"],
+  };
+  const render = (doc: string, options?: JSONValidationOptions) => {
+    const view = new EditorView({ doc, extensions: [json()] });
+    const [diagnostic] = new JSONValidation(schema, options).doValidation(view);
+    return diagnostic.renderMessage!(view) as HTMLElement;
+  };
+
+  it("should render code, the property description and a keyword link", () => {
+    expect(render('{"name": 1}').outerHTML).toEqual(
+      [
+        `<div class="cm6-json-schema-error"><div class="cm6-json-schema-error--message">`,
+        `<span>Expected </span><code class="cm6-json-schema-error--code">string</code>`,
+        `<span> but received </span><code class="cm6-json-schema-error--code">number</code><span></span></div>`,
+        `<div class="cm6-json-schema-error--description">the package name</div>`,
+        `<a class="cm6-json-schema-error--keyword" href="https://json-schema.org/understanding-json-schema/keywords#type"`,
+        ` target="_blank" rel="noopener noreferrer"><code>type</code></a></div>`,
+      ].join("")
+    );
+  });
+  it("should describe the missing property for required errors", () => {
+    const dom = render("{ }");
+    expect(dom.outerHTML).toContain("the package name");
+    expect(dom.outerHTML).toContain("keywords#required");
+  });
+  it("should render with a custom renderError", () => {
+    const dom = render('{"name": 1}', {
+      renderError: ({ message, keyword, description, error }) => {
+        const div = document.createElement("div");
+        div.textContent = [message, keyword, description, error.code].join("|");
+        return div;
+      },
+    });
+    expect(dom.textContent).toEqual(
+      "Expected `string` but received `number`|type|the package name|type-error"
+    );
+  });
+});
+
+describe("json-validation quick fixes", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      name: { type: "string", default: "example" },
+      count: { type: "integer" },
+      enabled: { type: "boolean" },
+      color: { enum: ["red", "green"] },
+    },
+    required: ["name"],
+    additionalProperties: false,
+  };
+  const applyFix = (doc: string, name: string) => {
+    const view = new EditorView({ doc, extensions: [json(), history()] });
+    const diagnostics = new JSONValidation(schema).doValidation(view);
+    const diagnostic = diagnostics.find((d) =>
+      d.actions?.some((a) => a.name === name)
+    );
+    expect(diagnostic).toBeDefined();
+    const action = diagnostic!.actions!.find((a) => a.name === name)!;
+    action.apply(view, diagnostic!.from, diagnostic!.to);
+    return view;
+  };
+
+  it("should add a missing required property with its default", () => {
+    const view = applyFix('{"count": 1}', 'Add property "name"');
+    expect(view.state.doc.toString()).toEqual(
+      '{"count": 1, "name": "example"}'
+    );
+    expect(
+      view.state.sliceDoc(
+        view.state.selection.main.from,
+        view.state.selection.main.to
+      )
+    ).toEqual('"example"');
+  });
+  it("should add a missing required property on its own line", () => {
+    const view = applyFix('{\n  "count": 1\n}', 'Add property "name"');
+    expect(view.state.doc.toString()).toEqual(
+      '{\n  "count": 1,\n  "name": "example"\n}'
+    );
+  });
+  it("should add a missing required property to an empty object", () => {
+    const view = applyFix("{ }", 'Add property "name"');
+    expect(view.state.doc.toString()).toEqual('{"name": "example" }');
+  });
+  it("should remove a disallowed property", () => {
+    const view = applyFix(
+      '{"name": "a", "other": 1, "count": 2}',
+      'Remove property "other"'
+    );
+    expect(view.state.doc.toString()).toEqual('{"name": "a", "count": 2}');
+  });
+  it("should remove a disallowed last property", () => {
+    const view = applyFix(
+      '{"name": "a", "other": 1}',
+      'Remove property "other"'
+    );
+    expect(view.state.doc.toString()).toEqual('{"name": "a"}');
+  });
+  it("should replace a value with an enum value", () => {
+    const view = applyFix(
+      '{"name": "a", "color": "blue"}',
+      'Replace with "green"'
+    );
+    expect(view.state.doc.toString()).toEqual(
+      '{"name": "a", "color": "green"}'
+    );
+  });
+  it("should convert strings to numbers and booleans", () => {
+    expect(
+      applyFix(
+        '{"name": "a", "count": "12"}',
+        "Convert to number"
+      ).state.doc.toString()
+    ).toEqual('{"name": "a", "count": 12}');
+    expect(
+      applyFix(
+        '{"name": "a", "enabled": "true"}',
+        "Convert to boolean"
+      ).state.doc.toString()
+    ).toEqual('{"name": "a", "enabled": true}');
+  });
+  it("should not offer conversions for strings that don't parse", () => {
+    const view = new EditorView({
+      doc: '{"name": "a", "count": "1.5"}',
+      extensions: [json()],
+    });
+    const [diagnostic] = new JSONValidation(schema).doValidation(view);
+    expect(diagnostic.actions).toBeUndefined();
+  });
+  it("should undo a fix in one step", () => {
+    const view = applyFix('{"count": 1}', 'Add property "name"');
+    expect(undoDepth(view.state)).toEqual(1);
+    undo(view);
+    expect(view.state.doc.toString()).toEqual('{"count": 1}');
+  });
+});
+
+describe("json-validation duplicate keys", () => {
+  const schema: JSONSchema7 = { type: "object" };
+  const validate = (doc: string, mode: "json4" | "json5" = "json4") => {
+    const view = new EditorView({
+      doc,
+      extensions: [mode === "json4" ? json() : json5(), history()],
+    });
+    const diagnostics = new JSONValidation(schema, {
+      ...(mode === "json5" ? { jsonParser: parseJSON5DocumentState } : {}),
+    }).doValidation(view);
+    return { view, diagnostics };
+  };
+
+  it("should warn on the keys after the first occurrence", () => {
+    const { diagnostics } = validate('{"a": 1, "b": 2, "a": 3, "a": 4}');
+    expect(
+      diagnostics.map(({ from, to, message, severity }) => ({
+        from,
+        to,
+        message,
+        severity,
+      }))
+    ).toEqual([
+      { from: 17, to: 20, message: "Duplicate key `a`", severity: "warning" },
+      { from: 25, to: 28, message: "Duplicate key `a`", severity: "warning" },
+    ]);
+  });
+  it("should warn on duplicate json5 keys", () => {
+    const { diagnostics } = validate("{a: 1, 'a': 2}", "json5");
+    expect(diagnostics.map(({ from, to }) => [from, to])).toEqual([[7, 10]]);
+  });
+  it("should not warn about the same key in different objects", () => {
+    const { diagnostics } = validate('{"a": {"b": 1}, "c": {"b": 2}}');
+    expect(diagnostics).toEqual([]);
+  });
+  it("should link to the first occurrence", () => {
+    const { view, diagnostics } = validate('{"a": 1, "a": 2}');
+    const dom = diagnostics[0].renderMessage!(view) as HTMLElement;
+    const link = dom.querySelector<HTMLElement>(
+      ".cm6-json-schema-error--related"
+    )!;
+    expect(link.innerText).toEqual("First occurrence of `a`");
+    link.click();
+    expect(view.state.selection.main).toMatchObject({ from: 1, to: 4 });
+  });
+  it("should remove the duplicate with a quick fix", () => {
+    const { view, diagnostics } = validate('{"a": 1, "a": 2}', "json5");
+    const [diagnostic] = diagnostics;
+    const [action] = diagnostic.actions!;
+    expect(action.name).toEqual('Remove duplicate "a"');
+    action.apply(view, diagnostic.from, diagnostic.to);
+    expect(view.state.doc.toString()).toEqual('{"a": 1}');
+  });
+  it("should warn on duplicate keys without a schema", () => {
+    const view = new EditorView({
+      doc: '{"a": 1, "a": 2}',
+      extensions: [json()],
+    });
+    const diagnostics = new JSONValidation().doValidation(view);
+    expect(
+      diagnostics.map(({ from, to, message, actions }) => ({
+        from,
+        to,
+        message,
+        actions: actions?.map(({ name }) => name),
+      }))
+    ).toEqual([
+      {
+        from: 9,
+        to: 12,
+        message: "Duplicate key `a`",
+        actions: ['Remove duplicate "a"'],
+      },
+    ]);
+  });
+  it("should suppress duplicate keys with the severity option", () => {
+    const view = new EditorView({
+      doc: '{"a": 1, "a": 2}',
+      extensions: [json()],
+    });
+    const diagnostics = new JSONValidation(schema, {
+      severity: { "duplicate-key-error": "off" },
+    }).doValidation(view);
+    expect(diagnostics).toEqual([]);
+  });
+});
+
+describe("json-validation oneOf and anyOf branches", () => {
+  const schema: JSONSchema7 = {
+    type: "object",
+    properties: {
+      shape: {
+        oneOf: [
+          {
+            title: "Circle",
+            type: "object",
+            properties: {
+              kind: { const: "circle" },
+              radius: { type: "number" },
+            },
+            required: ["kind", "radius"],
+          },
+          {
+            title: "Square",
+            type: "object",
+            properties: { kind: { const: "square" }, size: { type: "number" } },
+            required: ["kind", "size"],
+          },
+        ],
+      },
+      fill: {
+        anyOf: [
+          { type: "string" },
+          { $ref: "#/definitions/gradient" },
+          { $ref: "#/definitions/pattern" },
+        ],
+      },
+    },
+    definitions: {
+      gradient: {
+        type: "object",
+        properties: { from: { type: "string" }, to: { type: "string" } },
+      },
+      pattern: {
+        type: "object",
+        properties: { image: { type: "string" } },
+        required: ["image"],
+      },
+    },
+  };
+
+  it("should report the errors of the branch with a matching discriminator", () => {
+    expectErrors(
+      '{"shape": {"kind": "square", "size": "2"}}',
+      [
+        [
+          37,
+          40,
+          "Expected `number` but received `string` (assuming the `Square` branch of `oneOf`)",
+        ],
+      ],
+      schema
+    );
+  });
+  it("should report the errors of the branch with the most matched properties", () => {
+    expectErrors(
+      '{"fill": {"from": "red", "to": 1}}',
+      [
+        [
+          31,
+          32,
+          "Expected `string` but received `number` (assuming the `gradient` branch of `anyOf`)",
+        ],
+      ],
+      schema
+    );
+  });
+  it("should report missing properties of the best branch", () => {
+    expectErrors(
+      '{"shape": {"kind": "circle"}}',
+      [
+        [
+          10,
+          28,
+          "The required property `radius` is missing at `shape` (assuming the `Circle` branch of `oneOf`)",
+        ],
+      ],
+      schema
+    );
+  });
+});
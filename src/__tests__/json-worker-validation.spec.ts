@@ -0,0 +1,197 @@
+import { describe, it, expect, vi } from "vitest";
+import { json } from "@codemirror/lang-json";
+import { json5 } from "codemirror-json5";
+import { EditorView } from "@codemirror/view";
+import type { Diagnostic } from "@codemirror/lint";
+import type { JSONSchema7 } from "json-schema";
+import { jsonSchemaWorkerLinter } from "../json-worker-validation";
+import { jsonSchemaLinter } from "../json-validation";
+import { stateExtensions, updateSchema } from "../state";
+import { parseJSONDocumentState } from "../utils/parseJSONDocument";
+import {
+  exposeValidationWorker,
+  type ValidationMessage,
+  type ValidationResponse,
+  type ValidationTransport,
+} from "../utils/validationWorker";
+
+import { testSchema } from "./__fixtures__/schemas";
+
+// a transport to a worker on the same thread, with structured cloning
+const createFakeTransport = () => {
+  const messages: ValidationMessage[] = [];
+  const responses: ValidationResponse[] = [];
+  const workerListeners: ((event: { data: ValidationMessage }) => void)[] = [];
+  const mainListeners: ((event: { data: ValidationResponse }) => void)[] = [];
+  exposeValidationWorker({
+    postMessage: (data) => {
+      responses.push(data);
+      setTimeout(() =>
+        mainListeners.forEach((l) => l({ data: structuredClone(data) }))
+      );
+    },
+    addEventListener: (_type, listener) => workerListeners.push(listener),
+  });
+  const transport: ValidationTransport = {
+    postMessage: (data) => {
+      messages.push(data);
+      setTimeout(() =>
+        workerListeners.forEach((l) => l({ data: structuredClone(data) }))
+      );
+    },
+    addEventListener: (_type, listener) => mainListeners.push(listener),
+  };
+  return { transport, messages, responses };
+};
+
+// functions can't be compared
+const withoutFunctions = (diagnostics: Diagnostic[]) =>
+  diagnostics.map(({ actions, renderMessage, ...diagnostic }) => ({
+    ...diagnostic,
+    actions: actions?.map((action) => action.name),
+  }));
+
+describe("jsonSchemaWorkerLinter", () => {
+  it("should validate in the worker and map errors to ranges", async () => {
+    const view = new EditorView({
+      doc: '{"foo": 123, "bar": true}',
+      extensions: [json()],
+    });
+    const { transport, messages } = createFakeTransport();
+    const lint = jsonSchemaWorkerLinter(testSchema, { transport });
+    const diagnostics = await lint(view);
+    expect(messages.map(({ type }) => type)).toEqual(["schema", "validate"]);
+    expect(diagnostics).toHaveLength(2);
+    expect(withoutFunctions(diagnostics)).toEqual(
+      withoutFunctions(jsonSchemaLinter(testSchema)(view))
+    );
+  });
+  it("should validate json5 in the worker", async () => {
+    const view = new EditorView({
+      doc: "{foo: 123, 'bar': true}",
+      extensions: [json5()],
+    });
+    const { transport } = createFakeTransport();
+    const lint = jsonSchemaWorkerLinter(testSchema, {
+      transport,
+      mode: "json5",
+    });
+    expect((await lint(view)).map(({ from, to }) => [from, to])).toEqual([
+      [11, 16],
+      [6, 9],
+    ]);
+  });
+  it("should cancel the validation of older documents", async () => {
+    const { transport, messages } = createFakeTransport();
+    const lint = jsonSchemaWorkerLinter(testSchema, { transport });
+    const older = lint(
+      new EditorView({ doc: '{"foo": 1}', extensions: [json()] })
+    );
+    const newer = lint(
+      new EditorView({ doc: '{"foo": 2}', extensions: [json()] })
+    );
+    expect(await older).toEqual([]);
+    expect(await newer).toHaveLength(1);
+    expect(
+      messages.map((message) =>
+        message.type === "schema" ? "schema" : `${message.type} ${message.id}`
+      )
+    ).toEqual(["schema", "validate 1", "cancel 1", "validate 2"]);
+  });
+  it("should send the schema again only when it changes", async () => {
+    const view = new EditorView({
+      doc: '{"foo": 123}',
+      extensions: [json(), stateExtensions(testSchema)],
+    });
+    const { transport, messages } = createFakeTransport();
+    const lint = jsonSchemaWorkerLinter(undefined, { transport });
+    expect(await lint(view)).toHaveLength(1);
+    expect(await lint(view)).toHaveLength(1);
+    updateSchema(view, { type: "object" });
+    expect(await lint(view)).toEqual([]);
+    expect(messages.map(({ type }) => type)).toEqual([
+      "schema",
+      "validate",
+      "validate",
+      "schema",
+      "validate",
+    ]);
+  });
+  it("should report the errors of the best branch from the worker", async () => {
+    const schema: JSONSchema7 = {
+      type: "object",
+      properties: {
+        shape: {
+          oneOf: [
+            {
+              title: "Circle",
+              properties: { kind: { const: "circle" } },
+              required: ["kind"],
+            },
+            {
+              title: "Square",
+              properties: {
+                kind: { const: "square" },
+                size: { type: "number" },
+              },
+              required: ["kind", "size"],
+            },
+          ],
+        },
+      },
+    };
+    const view = new EditorView({
+      doc: '{"shape": {"kind": "square", "size": "2"}}',
+      extensions: [json()],
+    });
+    const { transport, responses } = createFakeTransport();
+    const diagnostics = await jsonSchemaWorkerLinter(schema, { transport })(
+      view
+    );
+    expect(diagnostics.map(({ message }) => message)).toEqual([
+      "Expected `number` but received `string` (assuming the `Square` branch of `oneOf`)",
+    ]);
+    expect(responses).toMatchObject([
+      {
+        errors: [{ code: "type-error", data: { branch: { label: "Square" } } }],
+      },
+    ]);
+  });
+  it("should only parse the document once the worker responds", async () => {
+    const view = new EditorView({ doc: '{"foo": 123}', extensions: [json()] });
+    const jsonParser = vi.fn(parseJSONDocumentState);
+    const { transport } = createFakeTransport();
+    const postMessage = transport.postMessage;
+    const parsedWhenPosted: number[] = [];
+    transport.postMessage = (data) => {
+      parsedWhenPosted.push(jsonParser.mock.calls.length);
+      postMessage(data);
+    };
+    const lint = jsonSchemaWorkerLinter(testSchema, { transport, jsonParser });
+    expect(await lint(view)).toHaveLength(1);
+    expect(parsedWhenPosted).toEqual([0, 0]);
+    expect(jsonParser).toHaveBeenCalledTimes(1);
+  });
+  it("should map the errors with the schema that was sent", async () => {
+    const view = new EditorView({
+      doc: '{"foo": 123}',
+      extensions: [json(), stateExtensions({ ...testSchema, title: "old" })],
+    });
+    const { transport } = createFakeTransport();
+    const pending = jsonSchemaWorkerLinter(undefined, { transport })(view);
+    updateSchema(view, { ...testSchema, title: "new" });
+    expect((await pending).map(({ source }) => source)).toEqual(["old"]);
+  });
+  it("should validate in-thread when the worker doesn't respond", async () => {
+    const view = new EditorView({ doc: '{"foo": 123}', extensions: [json()] });
+    const lint = jsonSchemaWorkerLinter(testSchema, {
+      transport: { postMessage() {}, addEventListener() {} },
+      timeout: 10,
+    });
+    expect(await lint(view)).toHaveLength(1);
+  });
+  it("should validate in-thread without a worker", () => {
+    const view = new EditorView({ doc: '{"foo": 123}', extensions: [json()] });
+    expect(jsonSchemaWorkerLinter(testSchema)(view)).toHaveLength(1);
+  });
+});
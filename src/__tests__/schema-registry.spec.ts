@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { json } from "@codemirror/lang-json";
+import { json5 } from "codemirror-json5";
+import { Compartment, EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { JSONSchema7 } from "json-schema";
+
+import {
+  documentUri,
+  getDocumentSchemaUri,
+  schemaRegistry,
+  selectSchema,
+  type SchemaRegistryEntry,
+} from "../schema-registry";
+import { getJSONSchema, updateSchema } from "../state";
+import { JSONValidation } from "../json-validation";
+import { testSchema, testSchema2 } from "./__fixtures__/schemas";
+
+const packageSchema = { type: "object", title: "package" } as JSONSchema7;
+
+const entries: SchemaRegistryEntry[] = [
+  { uri: "https://example.com/test.json", schema: testSchema },
+  { uri: "https://example.com/test2.json#", schema: testSchema2 },
+  {
+    fileMatch: ["package.json", "config/**/*.pkg.json"],
+    schema: packageSchema,
+  },
+];
+
+describe("getDocumentSchemaUri", () => {
+  it("should return the top level $schema value", () => {
+    const state = EditorState.create({
+      doc: '{"$schema": "https://example.com/test.json", "foo": "bar"}',
+      extensions: [json()],
+    });
+    expect(getDocumentSchemaUri(state)).toEqual(
+      "https://example.com/test.json"
+    );
+  });
+  it("should return the top level $schema value for json5", () => {
+    const state = EditorState.create({
+      doc: "{ $schema: 'https://example.com/test.json' }",
+      extensions: [json5()],
+    });
+    expect(getDocumentSchemaUri(state)).toEqual(
+      "https://example.com/test.json"
+    );
+  });
+  it("should return the last of duplicate $schema keys", () => {
+    const state = EditorState.create({
+      doc: '{"$schema": "a.json", "$schema": "b.json"}',
+      extensions: [json()],
+    });
+    expect(getDocumentSchemaUri(state)).toEqual("b.json");
+  });
+  it("should ignore nested $schema values", () => {
+    const state = EditorState.create({
+      doc: '{"nested": {"$schema": "https://example.com/test.json"}}',
+      extensions: [json()],
+    });
+    expect(getDocumentSchemaUri(state)).toBeUndefined();
+  });
+});
+
+describe("selectSchema", () => {
+  const select = (doc: string, uri?: string) =>
+    selectSchema(
+      EditorState.create({
+        doc,
+        extensions: [json(), uri ? documentUri.of(uri) : []],
+      }),
+      entries
+    );
+
+  it("should select by $schema", () => {
+    expect(select('{"$schema": "https://example.com/test.json"}')).toBe(
+      testSchema
+    );
+    expect(select('{"$schema": "https://example.com/test2.json"}')).toBe(
+      testSchema2
+    );
+  });
+  it("should select by documentUri", () => {
+    expect(select("{}", "file:///project/package.json")).toBe(packageSchema);
+    expect(select("{}", "file:///project/config/a/b/c.pkg.json")).toBe(
+      packageSchema
+    );
+    expect(select("{}", "file:///project/package.json5")).toBeUndefined();
+  });
+  it("should prefer $schema over documentUri", () => {
+    expect(
+      select(
+        '{"$schema": "https://example.com/test.json"}',
+        "file:///project/package.json"
+      )
+    ).toBe(testSchema);
+  });
+  it("should return undefined when nothing matches", () => {
+    expect(select('{"$schema": "https://example.com/other.json"}')).toBe(
+      undefined
+    );
+  });
+});
+
+describe("schemaRegistry", () => {
+  it("should switch schemas in the transaction that edits $schema", () => {
+    const doc = '{"$schema": "https://example.com/test.json", "foo": 123}';
+    const state = EditorState.create({
+      doc,
+      extensions: [json(), schemaRegistry(entries)],
+    });
+    expect(getJSONSchema(state)).toBe(testSchema);
+    const from = doc.indexOf("test.json");
+    const tr = state.update({
+      changes: { from, to: from + "test".length, insert: "test2" },
+    });
+    expect(getJSONSchema(tr.state)).toBe(testSchema2);
+  });
+  it("should switch schemas when $schema is added", () => {
+    const state = EditorState.create({
+      doc: '{"foo": 123}',
+      extensions: [json(), schemaRegistry(entries)],
+    });
+    expect(getJSONSchema(state)).toBeUndefined();
+    const tr = state.update({
+      changes: {
+        from: 1,
+        insert: '"$schema": "https://example.com/test.json", ',
+      },
+    });
+    expect(getJSONSchema(tr.state)).toBe(testSchema);
+  });
+  it("should switch schemas when the documentUri changes", () => {
+    const uri = new Compartment();
+    const state = EditorState.create({
+      doc: "{}",
+      extensions: [json(), uri.of([]), schemaRegistry(entries)],
+    });
+    const tr = state.update({
+      effects: uri.reconfigure(documentUri.of("file:///project/package.json")),
+    });
+    expect(getJSONSchema(tr.state)).toBe(packageSchema);
+  });
+  it("should keep a replaced schema while $schema is unchanged", () => {
+    const view = new EditorView({
+      doc: '{"$schema": "https://example.com/test.json", "foo": 123}',
+      extensions: [json(), schemaRegistry(entries)],
+    });
+    const linked = { ...testSchema };
+    updateSchema(view, linked);
+    view.dispatch({
+      changes: { from: view.state.doc.length - 1, insert: " " },
+    });
+    expect(getJSONSchema(view.state)).toBe(linked);
+  });
+  it("should only lint the syntax when nothing matches", () => {
+    const view = new EditorView({
+      doc: '{"$schema": "https://example.com/test.json", "foo": 123}',
+      extensions: [json(), schemaRegistry(entries)],
+    });
+    expect(new JSONValidation().doValidation(view)).not.toEqual([]);
+    view.dispatch({ changes: { from: 2, to: 9 } });
+    expect(getJSONSchema(view.state)).toBeUndefined();
+    expect(new JSONValidation().doValidation(view)).toEqual([]);
+  });
+  it("should use the fallback schema when nothing matches", () => {
+    const state = EditorState.create({
+      doc: "{}",
+      extensions: [json(), schemaRegistry(entries, { fallback: testSchema2 })],
+    });
+    expect(getJSONSchema(state)).toBe(testSchema2);
+  });
+});
@@ -1,24 +1,125 @@
 import { JSONSchema7 } from "json-schema";
 import { json, jsonLanguage, jsonParseLinter } from "@codemirror/lang-json";
 import { hoverTooltip } from "@codemirror/view";
-import { jsonCompletion } from "./json-completion";
-import { jsonSchemaLinter } from "./json-validation";
+import {
+  completionStyles,
+  jsonCompletion,
+  type JSONCompletionOptions,
+} from "./json-completion";
+import {
+  jsonSchemaLinter,
+  type JSONValidationOptions,
+} from "./json-validation";
 import { jsonSchemaHover } from "./json-hover";
 
 import { linter } from "@codemirror/lint";
+import { handleRefresh, stateExtensions } from "./state";
+import { refLoader } from "./ref-loader";
+import { schemaRegistry } from "./schema-registry";
+import type { JSONSchemaDraft } from "./utils/schemaDraft";
+import type { SchemaLoader } from "./utils/resolveExternalRefs";
+import type { SchemaRegistryEntry } from "./schema-registry";
+import type { FormatValidator } from "./utils/formats";
+import type { KeywordPlugin } from "./utils/keywordPlugins";
+import type { MessageCatalog } from "./utils/messages";
+
+export type JSONSchemaOptions = {
+  /**
+   * Override the json schema draft detected from `$schema`
+   * for validation, hover and completion.
+   * `2019-09` and `2020-12` fall back to draft-07, see `JSONSchemaDraft`
+   * @default "draft-07"
+   */
+  draft?: JSONSchemaDraft;
+  /**
+   * Load the documents of external `$ref`s, i.e. `common.json#/definitions/id`.
+   * The linked schema is used for validation, hover and completion
+   */
+  loadSchema?: SchemaLoader;
+  /**
+   * Register many schemas, to pick one from the document's `"$schema"` value
+   * or `documentUri`. `schema` is used when no entry matches
+   */
+  schemas?: SchemaRegistryEntry[];
+  /**
+   * Validators for `format` values by name, merged with the built-in `defaultFormats`
+   */
+  formats?: Record<string, FormatValidator>;
+  /**
+   * Support custom schema keywords, i.e. `x-unique-by`,
+   * in validation, hover and completion
+   */
+  keywords?: KeywordPlugin[];
+  /**
+   * The locale for joining lists in messages and hovers, i.e. `de`
+   */
+  locale?: string;
+  /**
+   * Message templates by error code, which override `defaultMessages`
+   */
+  messages?: MessageCatalog;
+  /**
+   * The severity of schema diagnostics by error code, or `"off"` to suppress
+   * a code, i.e. `{ "no-additional-properties-error": "warning" }`
+   */
+  severity?: JSONValidationOptions["severity"];
+  /**
+   * Generate the diagnostic tooltip HTML
+   */
+  renderError?: JSONValidationOptions["renderError"];
+  /**
+   * Options for the completion only, i.e. `{ skeletonDepth: 2 }`
+   */
+  completion?: Pick<JSONCompletionOptions, "skeletonDepth">;
+};
 
 /**
  * Full featured cm6 extension for json, including `@codemirror/lang-json`
+ * The schema can be swapped at runtime with `updateSchema()`
  * @group Bundled Codemirror Extensions
  */
-export function jsonSchema(schema: JSONSchema7) {
+export function jsonSchema(
+  schema?: JSONSchema7,
+  options: JSONSchemaOptions = {}
+) {
   return [
     json(),
     linter(jsonParseLinter()),
-    linter(jsonSchemaLinter(schema)),
+    linter(
+      jsonSchemaLinter(undefined, {
+        draft: options.draft,
+        formats: options.formats,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+        severity: options.severity,
+        renderError: options.renderError,
+      }),
+      {
+        needsRefresh: handleRefresh,
+      }
+    ),
     jsonLanguage.data.of({
-      autocomplete: jsonCompletion(schema),
+      autocomplete: jsonCompletion(undefined, {
+        draft: options.draft,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+        skeletonDepth: options.completion?.skeletonDepth,
+      }),
     }),
-    hoverTooltip(jsonSchemaHover(schema)),
+    completionStyles,
+    hoverTooltip(
+      jsonSchemaHover(undefined, {
+        draft: options.draft,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+      })
+    ),
+    options.schemas
+      ? schemaRegistry(options.schemas, { fallback: schema })
+      : stateExtensions(schema),
+    options.loadSchema ? refLoader({ loadSchema: options.loadSchema }) : [],
   ];
 }
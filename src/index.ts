@@ -1,10 +1,34 @@
-export { jsonCompletion } from "./json-completion";
+export {
+  jsonCompletion,
+  completionOptionClass,
+  completionStyles,
+  fillRequiredProperties,
+  type JSONCompletionOptions,
+  type JSONCompletionItem,
+} from "./json-completion";
 
 export {
   jsonSchemaLinter,
+  getErrorKeyword,
   type JSONValidationOptions,
+  type ErrorTexts,
+  type SchemaSeverity,
+  type RelatedInformation,
+  type EmbeddedDocument,
 } from "./json-validation";
 
+export {
+  validateJSONText,
+  type TextDiagnostic,
+  type JSONTextValidationOptions,
+} from "./json-text-validation";
+
+export {
+  jsonSchemaWorkerLinter,
+  type JSONWorkerValidationOptions,
+  type ValidationTransport,
+} from "./json-worker-validation";
+
 export {
   jsonSchemaHover,
   type HoverOptions,
@@ -12,7 +36,34 @@ export {
   type CursorData,
 } from "./json-hover";
 
-export { jsonSchema } from "./bundled";
+export { jsonSchema, type JSONSchemaOptions } from "./bundled";
+
+export {
+  jsonLinesSchema,
+  jsonLinesSchemaLinter,
+  jsonLinesSchemaHover,
+  jsonLinesCompletion,
+  jsonLinesParseLinter,
+  getLineSchema,
+  type JSONLinesSchemaOptions,
+} from "./json-lines";
+
+export {
+  updateSchema,
+  getJSONSchema,
+  stateExtensions,
+  handleRefresh,
+  schemaStateField,
+} from "./state";
+export { refLoader } from "./ref-loader";
+export {
+  schemaRegistry,
+  documentUri,
+  selectSchema,
+  getDocumentSchemaUri,
+  type SchemaRegistryEntry,
+  type SchemaRegistryOptions,
+} from "./schema-registry";
 
 export type {
   JSONPointersMap,
@@ -22,3 +73,16 @@ export type {
 
 export * from "./utils/parseJSONDocument";
 export * from "./utils/jsonPointers";
+export * from "./utils/parseJSONTree";
+export * from "./utils/fullParse";
+export * from "./utils/schemaDraft";
+export * from "./utils/parsedDocument";
+export * from "./utils/resolveExternalRefs";
+export * from "./utils/quickFixes";
+export * from "./utils/deprecation";
+export * from "./utils/formats";
+export * from "./utils/keywordPlugins";
+export * from "./utils/messages";
+export * from "./utils/bestBranch";
+export * from "./utils/conditionalSchemas";
+export * from "./utils/fuzzyMatch";
@@ -1,10 +1,16 @@
 import {
+  autocompletion,
   Completion,
   CompletionContext,
   CompletionResult,
+  CompletionSection,
+  snippet,
   snippetCompletion,
 } from "@codemirror/autocomplete";
 import { syntaxTree } from "@codemirror/language";
+import gp from "@sagold/json-pointer";
+import type { EditorState } from "@codemirror/state";
+import { EditorView, type Command } from "@codemirror/view";
 import { SyntaxNode } from "@lezer/common";
 import { JSONSchema7, JSONSchema7Definition } from "json-schema";
 import { debug } from "./utils/debug";
@@ -17,10 +23,58 @@ import {
   stripSurroundingQuotes,
   getNodeAtPosition,
 } from "./utils/node";
-import { Draft07, JsonError } from "json-schema-library";
-import { jsonPointerForPosition } from "./utils/jsonPointers";
+import type { JsonError, JsonSchema } from "json-schema-library";
+import { getJsonPointerAt, jsonPointerForPosition } from "./utils/jsonPointers";
 import { TOKENS } from "./constants";
 import getSchema from "./utils/schema-lib/getSchema";
+import { getJSONSchema } from "./state";
+import { getDraft, type JSONSchemaDraft } from "./utils/schemaDraft";
+import {
+  getParsedDocument,
+  type JSONDocumentParser,
+} from "./utils/parsedDocument";
+import { getDeprecationMessage } from "./utils/deprecation";
+import { getConditionalSchemas } from "./utils/conditionalSchemas";
+import { getBestBranch, type SchemaBranch } from "./utils/bestBranch";
+import { fuzzyMatch, type FuzzyMatch } from "./utils/fuzzyMatch";
+import { translate, type MessageCatalog } from "./utils/messages";
+import { getKeywordContext, type KeywordPlugin } from "./utils/keywordPlugins";
+
+/**
+ * completions for deprecated properties are flagged,
+ * so that `completionOptionClass` can strike them through
+ */
+export type JSONCompletionItem = Completion & {
+  deprecated?: boolean;
+  /**
+   * matches any prefix, i.e. a placeholder key for the entries of
+   * `patternProperties` or `additionalProperties`
+   */
+  placeholder?: boolean;
+};
+
+const DEPRECATED_CLASS = "cm6-json-schema-completion--deprecated";
+
+/**
+ * the `optionClass` for `autocompletion()`, which marks deprecated properties
+ * @group Utilities
+ */
+export const completionOptionClass = (completion: JSONCompletionItem) =>
+  completion.deprecated ? DEPRECATED_CLASS : "";
+
+/**
+ * strike through deprecated properties in the completion list.
+ * included in the bundled `jsonSchema()` and `json5Schema()` extensions
+ * @group Codemirror Extensions
+ */
+export const completionStyles = [
+  autocompletion({ optionClass: completionOptionClass }),
+  EditorView.baseTheme({
+    [`.${DEPRECATED_CLASS} .cm-completionLabel`]: {
+      textDecoration: "line-through",
+    },
+  }),
+];
 
 function json5PropertyInsertSnippet(rawWord: string, value: string) {
   if (rawWord.startsWith('"')) {
@@ -32,6 +86,22 @@ function json5PropertyInsertSnippet(rawWord: string, value: string) {
   return value;
 }
 
+// number the fields of a snippet in order, so that tab visits each of them,
+// as numbered fields like `#{0}` would come first and be linked.
+// a numbered field keeps its number as the placeholder. braces of inserted
+// values are escaped by `getInsertTextForPlainText()`, so only fields match
+const numberSnippetFields = (template: string) => {
+  let seq = 0;
+  return template.replace(
+    /[#$]\{(?:(\d+)(?::([^}]*))?|([^}]*))\}/g,
+    (_, num, numbered, name) => `#{${++seq}:${numbered ?? name ?? num}}`
+  );
+};
+
+// json5 keys are quoted when they aren't identifiers
+const getJSON5KeyQuote = (key: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? "" : '"';
+
 class CompletionCollector {
   completions = new Map<string, Completion>();
   reservedKeys = new Set<string>();
@@ -48,13 +118,50 @@ class CompletionCollector {
   }
 }
 
-type JSONCompletionOptions = {
+export type JSONCompletionOptions = {
   mode?: "json" | "json5";
+  /**
+   * Override the json schema draft detected from `$schema`
+   * @default "draft-07"
+   */
+  draft?: JSONSchemaDraft;
+  /**
+   * Provide a custom parser for the document state
+   * @default parseJSONDocumentState
+   */
+  jsonParser?: JSONDocumentParser;
+  /**
+   * Suggest values for custom schema keywords, i.e. `x-references`
+   */
+  keywords?: KeywordPlugin[];
+  /**
+   * The locale passed to message templates, i.e. `de`
+   */
+  locale?: string;
+  /**
+   * Message templates for completion details, which override `defaultMessages`
+   */
+  messages?: MessageCatalog;
+  /**
+   * How many levels of required sub-objects an object value expands into,
+   * with a field for each value, i.e. `2` for `"a": { "b": { "c": "" } }`
+   * @default 0
+   */
+  skeletonDepth?: number;
 };
 
 export class JSONCompletion {
+  private schema?: JSONSchema7;
+  // the value being completed, for keyword plugins
+  private valueContext?: { pointer: string; data: unknown };
+  // the `oneOf` and `anyOf` branches of the object being completed,
+  // and whether the object matches them best
+  private branches = new Map<
+    JSONSchema7Definition,
+    { keyword: SchemaBranch["keyword"]; index: number; matched: boolean }
+  >();
   public constructor(
-    private schema: JSONSchema7,
+    private defaultSchema: JSONSchema7 | undefined,
     private opts: JSONCompletionOptions
   ) {}
 
@@ -66,6 +173,12 @@ export class JSONCompletion {
       filter: false, // will be handled manually
     };
 
+    // the schema may have been swapped with `updateSchema()`
+    this.schema = getJSONSchema(ctx.state, this.defaultSchema);
+    if (!this.schema) {
+      return result;
+    }
+
     const text = ctx.state.doc.sliceString(0);
     let node: SyntaxNode | null = getNodeAtPosition(ctx.state, ctx.pos);
 
@@ -140,6 +253,21 @@ export class JSONCompletion {
 
     debug.log("xxx", node, currentWord, ctx);
 
+    // fill in the required properties of an empty object
+    const object = this.getObjectAt(ctx.state, ctx.pos);
+    if (object && !ctx.state.sliceDoc(object.from + 1, object.to - 1).trim()) {
+      const fill = this.getRequiredPropertiesSnippet(ctx.state, ctx.pos);
+      if (fill) {
+        const completion: JSONCompletionItem = {
+          label: translate("fill-required-properties", {}, this.opts) ?? "",
+          apply: fill.template,
+          type: "text",
+          placeholder: true,
+        };
+        collector.add(this.applySnippetCompletion(completion));
+      }
+    }
+
     // proposals for properties
     if (
       node &&
@@ -168,10 +296,41 @@ export class JSONCompletion {
       this.getValueCompletions(this.schema, ctx, types, collector);
     }
 
-    // handle filtering
-    result.options = Array.from(collector.completions.values()).filter((v) =>
-      stripSurroundingQuotes(v.label).startsWith(prefix)
+    // handle filtering, by fuzzy matching the unquoted labels
+    const matches = new Map<Completion, FuzzyMatch>();
+    const options = Array.from(collector.completions.values()).filter(
+      (v: JSONCompletionItem) => {
+        if (v.placeholder) {
+          return true;
+        }
+        const label = stripSurroundingQuotes(v.label);
+        const match = fuzzyMatch(prefix, label);
+        if (match) {
+          // the ranges are highlighted in the quoted label
+          const offset = label === v.label ? 0 : 1;
+          matches.set(v, {
+            ...match,
+            ranges: match.ranges.map((pos) => pos + offset),
+          });
+        }
+        return match !== null;
+      }
     );
+    // the options aren't sorted by `boost`, because we filter them ourselves,
+    // but by the rank of their section, with placeholder keys last,
+    // and then by how well they match
+    const getRank = (v: JSONCompletionItem) => [
+      typeof v.section === "object" ? v.section.rank ?? 0 : -1,
+      v.placeholder ? 1 : 0,
+      -(matches.get(v)?.score ?? 0),
+    ];
+    result.options = options.sort((a, b) => {
+      const rankA = getRank(a);
+      const rankB = getRank(b);
+      const i = rankA.findIndex((rank, i) => rank !== rankB[i]);
+      return i === -1 ? 0 : rankA[i] - rankB[i];
+    });
+    result.getMatch = (completion) => matches.get(completion)?.ranges ?? [];
 
     debug.log(
       "xxx",
@@ -186,6 +345,129 @@ export class JSONCompletion {
     );
     return result;
   }
+
+  /**
+   * the snippet that inserts the missing `required` properties of the
+   * innermost object at `pos`, with a field for each value
+   */
+  public getRequiredPropertiesSnippet(
+    state: EditorState,
+    pos: number
+  ): { from: number; to: number; template: string } | null {
+    this.schema = getJSONSchema(state, this.defaultSchema);
+    const object = this.getObjectAt(state, pos);
+    if (!this.schema || !object) {
+      return null;
+    }
+    const properties = object.getChildren(TOKENS.PROPERTY);
+    const present = properties.map((p) =>
+      getWord(state.doc, p.getChild(TOKENS.PROPERTY_NAME))
+    );
+
+    // the branches that the object doesn't match require nothing of it
+    const schemas = this.getObjectSchemas(
+      this.getSchemas(
+        this.schema,
+        { state, pos },
+        getJsonPointerAt(state.doc, object)
+      ).filter((s) => this.branches.get(s)?.matched ?? true)
+    );
+
+    const missing = [
+      ...new Set(schemas.flatMap((s) => s.required ?? [])),
+    ].filter((key) => !present.includes(key));
+    if (!missing.length) {
+      return null;
+    }
+    const entries = missing.map((key) =>
+      this.getInsertTextForProperty(
+        key,
+        true,
+        getJSON5KeyQuote(key),
+        this.findPropertySchema(schemas, key)
+      )
+    );
+    const last = properties[properties.length - 1];
+    if (!last) {
+      return {
+        from: pos,
+        to: pos,
+        template: numberSnippetFields(`\n\t${entries.join(",\n\t")}\n`),
+      };
+    }
+    const separator =
+      state.doc.lineAt(object.from).number ===
+      state.doc.lineAt(object.to).number
+        ? ", "
+        : ",\n";
+    return {
+      from: last.to,
+      to: last.to,
+      template: numberSnippetFields(separator + entries.join(separator)),
+    };
+  }
+
+  // the schemas of an object, with their `allOf` and `$ref`s resolved
+  private getObjectSchemas(objectSchemas: JSONSchema7Definition[]) {
+    const schemas: JSONSchema7[] = [];
+    const seen = new Set<JSONSchema7Definition>();
+    const collect = (s: JSONSchema7Definition) => {
+      if (seen.has(s)) {
+        return;
+      }
+      seen.add(s);
+      const expanded = this.expandSchemaProperty(s, this.schema!);
+      if (typeof expanded === "object") {
+        schemas.push(expanded);
+        expanded.allOf?.forEach(collect);
+      }
+    };
+    objectSchemas.forEach(collect);
+    return schemas;
+  }
+
+  private findPropertySchema(schemas: JSONSchema7[], key: string) {
+    return schemas.find((s) => typeof s.properties?.[key] === "object")
+      ?.properties?.[key];
+  }
+
+  // the required properties of an object, each on its own line,
+  // down to `depth` levels of objects
+  private getObjectSkeleton(
+    schema: JSONSchema7,
+    depth: number,
+    refs: string[]
+  ): string {
+    const schemas = this.getObjectSchemas([schema]);
+    const required = [...new Set(schemas.flatMap((s) => s.required ?? []))];
+    if (!required.length) {
+      return "{#{}}";
+    }
+    const entries = required.map((key) =>
+      this.getInsertTextForProperty(
+        key,
+        true,
+        getJSON5KeyQuote(key),
+        this.findPropertySchema(schemas, key),
+        depth - 1,
+        refs
+      ).replace(/\n/g, "\n\t")
+    );
+    return numberSnippetFields(`{\n\t${entries.join(",\n\t")}\n}`);
+  }
+
+  // the innermost object around `pos`
+  private getObjectAt(state: EditorState, pos: number) {
+    let node: SyntaxNode | null = getNodeAtPosition(state, pos);
+    while (
+      node &&
+      !(node.name === TOKENS.OBJECT && node.from < pos && pos < node.to)
+    ) {
+      node = node.parent;
+    }
+    return node;
+  }
+
   private applySnippetCompletion(completion: Completion) {
     return snippetCompletion(
       typeof completion.apply !== "string"
@@ -215,6 +497,14 @@ export class JSONCompletion {
 
     // Get matching schemas
     const schemas = this.getSchemas(schema, ctx);
+    // required by the object, except by the branches that it doesn't match
+    const required = new Set(
+      schemas.flatMap((s) =>
+        typeof s === "object" && (this.branches.get(s)?.matched ?? true)
+          ? s.required ?? []
+          : []
+      )
+    );
 
     schemas.forEach((s) => {
       if (typeof s !== "object") {
@@ -228,7 +518,8 @@ export class JSONCompletion {
             const description = value.description ?? "";
             const type = value.type ?? "";
             const typeStr = Array.isArray(type) ? type.toString() : type;
-            const completion: Completion = {
+            const deprecated = getDeprecationMessage(value) !== undefined;
+            const completion: JSONCompletionItem = {
               // label is the unquoted key which will be displayed.
               label: key,
               apply: this.getInsertTextForProperty(
@@ -240,11 +531,50 @@ export class JSONCompletion {
               type: "property",
               detail: typeStr,
               info: description,
+              section: this.getPropertySection(key, s, required, deprecated),
+              ...(deprecated ? { deprecated, boost: -99 } : {}),
             };
             collector.add(this.applySnippetCompletion(completion));
           }
         });
       }
+      // a placeholder key for the entries of maps, labeled by their pattern
+      const entries: [string, JSONSchema7Definition][] = [
+        ...Object.entries(s.patternProperties ?? {}).map(
+          ([pattern, value]): [string, JSONSchema7Definition] => [
+            `/${pattern}/`,
+            value,
+          ]
+        ),
+      ];
+      if (typeof s.additionalProperties === "object") {
+        entries.push([
+          translate("additional-property-label", {}, this.opts) ?? "",
+          s.additionalProperties,
+        ]);
+      }
+      entries.forEach(([label, value]) => {
+        if (typeof value !== "object") {
+          return;
+        }
+        const entrySchema = this.expandSchemaProperty(value, this.schema!);
+        const type =
+          typeof entrySchema === "object" ? entrySchema.type ?? "" : "";
+        const key = this.getPlaceholderKey(rawWord);
+        const completion: JSONCompletionItem = {
+          label,
+          apply: this.getInsertTextForProperty(key, addValue, rawWord, value),
+          type: "property",
+          detail: Array.isArray(type) ? type.toString() : type,
+          info:
+            typeof entrySchema === "object"
+              ? entrySchema.description ?? ""
+              : "",
+          section: this.getPropertySection(label, s, required),
+          placeholder: true,
+        };
+        collector.add(this.applySnippetCompletion(completion));
+      });
       const propertyNames = s.propertyNames;
       if (typeof propertyNames === "object") {
         if (propertyNames.enum) {
@@ -255,6 +585,7 @@ export class JSONCompletion {
                 label,
                 apply: this.getInsertTextForProperty(label, addValue, rawWord),
                 type: "property",
+                section: this.getPropertySection(label, s, required),
               };
               collector.add(this.applySnippetCompletion(completion));
             }
@@ -267,11 +598,60 @@ export class JSONCompletion {
             label,
             apply: this.getInsertTextForProperty(label, addValue, rawWord),
             type: "property",
+            section: this.getPropertySection(label, s, required),
           };
           collector.add(this.applySnippetCompletion(completion));
         }
       }
+      // the `{ required }` of `dependentRequired` and array `dependencies`
+      (properties ? [] : s.required ?? []).forEach((label) => {
+        if (collector.completions.has(label)) {
+          return;
+        }
+        const completion: Completion = {
+          label,
+          apply: this.getInsertTextForProperty(label, addValue, rawWord),
+          type: "property",
+          section: this.getPropertySection(label, s, required),
+        };
+        collector.add(this.applySnippetCompletion(completion));
+      });
+    });
+  }
+
+  // required properties come first, then the properties of the branch that
+  // the object matches, then the other ones, and deprecated ones last
+  private getPropertySection(
+    key: string,
+    schema: JSONSchema7,
+    required: Set<string>,
+    deprecated = false
+  ): CompletionSection {
+    const section = (messageKey: string, rank: number, data = {}) => ({
+      name: translate(messageKey, data, this.opts) ?? messageKey,
+      rank,
     });
+    if (deprecated) {
+      return section("deprecated-section", 3);
+    }
+    if (required.has(key)) {
+      return section("required-section", 0);
+    }
+    const branch = this.branches.get(schema);
+    if (branch?.matched) {
+      return section("branch-section", 1, {
+        keyword: branch.keyword,
+        index: branch.index + 1,
+      });
+    }
+    return section("optional-section", 2);
+  }
+
+  // the key of a placeholder completion is a snippet field, which keeps
+  // the word that has been typed so far
+  private getPlaceholderKey(rawWord: string) {
+    const word = rawWord.replace(/^["']|["']$/g, "").replace(/[#{}\\]/g, "");
+    return `#{${word || translate("property-key-placeholder", {}, this.opts)}}`;
   }
 
   // apply is the quoted key which will be applied.
@@ -289,11 +669,20 @@ export class JSONCompletion {
     key: string,
     addValue: boolean,
     rawWord: string,
-    propertySchema?: JSONSchema7Definition
-  ) {
+    propertySchema?: JSONSchema7Definition,
+    depth = this.opts.skeletonDepth ?? 0,
+    // the `$ref`s of the skeleton so far, to stop at recursive ones
+    refs: string[] = []
+  ): string {
+    const ref =
+      typeof propertySchema === "object" ? propertySchema.$ref : undefined;
+    if (ref) {
+      depth = refs.includes(ref) ? 0 : depth;
+      refs = [...refs, ref];
+    }
     // expand schema property if it is a reference
     propertySchema = propertySchema
-      ? this.expandSchemaProperty(propertySchema, this.schema)
+      ? this.expandSchemaProperty(propertySchema, this.schema!)
       : propertySchema;
 
     const isJSON5 = this.opts?.mode === "json5";
@@ -360,7 +749,10 @@ export class JSONCompletion {
               value = isJSON5 ? "'#{}'" : '"#{}"';
               break;
             case "object":
-              value = "{#{}}";
+              value =
+                depth > 0
+                  ? this.getObjectSkeleton(propertySchema, depth, refs)
+                  : "{#{}}";
               break;
             case "array":
               value = "[#{}]";
@@ -408,7 +800,12 @@ export class JSONCompletion {
       case "string": {
         let snippetValue = JSON.stringify(value);
         snippetValue = snippetValue.substr(1, snippetValue.length - 2); // remove quotes
-        snippetValue = this.getInsertTextForPlainText(snippetValue); // escape \ and }
+        if (/[{}]/.test(snippetValue)) {
+          // a field can't hold braces, so insert it as text
+          return this.getInsertTextForPlainText(
+            `"${snippetValue}"${separatorAfter}`
+          );
+        }
         return '"${' + snippetValue + '}"' + separatorAfter;
       }
       case "number":
@@ -417,8 +814,10 @@ export class JSONCompletion {
     }
     return this.getInsertTextForValue(value, separatorAfter);
   }
+  // snippets only unescape `\{` and `\}`, so that `#{` and `${` in the
+  // text aren't read as fields
   private getInsertTextForPlainText(text: string): string {
-    return text.replace(/[\\$}]/g, "\\$&"); // escape $, \ and }
+    return text.replace(/[{}]/g, "\\$&"); // escape { and }
   }
 
   private getInsertTextForValue(value: any, separatorAfter: string): string {
@@ -446,6 +845,13 @@ export class JSONCompletion {
 
     debug.log("xxx", "getValueCompletions", node, ctx);
 
+    if (this.opts.keywords?.length) {
+      this.valueContext = {
+        pointer: jsonPointerForPosition(ctx.state, ctx.pos),
+        data: getParsedDocument(ctx.state, this.opts.jsonParser).data,
+      };
+    }
+
     if (node && isPrimitiveValueNode(node)) {
       valueNode = node;
       node = node.parent;
@@ -556,6 +962,7 @@ export class JSONCompletion {
     if (typeof schema === "object") {
       this.addEnumValueCompletions(schema, collector);
       this.addDefaultValueCompletions(schema, collector);
+      this.addKeywordValueCompletions(schema, collector);
       this.collectTypes(schema, types);
       if (Array.isArray(schema.allOf)) {
         schema.allOf.forEach((s) =>
@@ -590,7 +997,7 @@ export class JSONCompletion {
       const completionItem: Completion = {
         type: type?.toString(),
         label: this.getLabelForValue(value),
-        detail: "Default value",
+        detail: translate("default-value", {}, this.opts),
       };
       collector.add(completionItem);
       hasProposals = true;
@@ -645,6 +1052,33 @@ export class JSONCompletion {
     }
   }
 
+  // values are completed from the parent schema, like enums
+  private hasKeywordValues(schema: object) {
+    return !!this.opts.keywords?.some(
+      (plugin) => plugin.completionValues && plugin.keyword in schema
+    );
+  }
+
+  private addKeywordValueCompletions(
+    schema: JSONSchema7,
+    collector: CompletionCollector
+  ): void {
+    if (!this.valueContext) {
+      return;
+    }
+    const { pointer, data } = this.valueContext;
+    this.opts.keywords?.forEach((plugin) => {
+      const context = getKeywordContext(plugin, schema, pointer, data);
+      const values = context && plugin.completionValues?.(context);
+      values?.forEach((value) => {
+        collector.add({
+          type: typeof value,
+          label: this.getLabelForValue(value),
+        });
+      });
+    });
+  }
+
   private addBooleanValueCompletion(
     value: boolean,
     collector: CompletionCollector
@@ -679,27 +1113,48 @@ export class JSONCompletion {
 
   private getSchemas(
     schema: JSONSchema7,
-    ctx: CompletionContext
+    ctx: Pick<CompletionContext, "state" | "pos">,
+    pointer = jsonPointerForPosition(ctx.state, ctx.pos)
   ): JSONSchema7Definition[] {
-    const draft = new Draft07(this.schema);
-    let pointer = jsonPointerForPosition(ctx.state, ctx.pos);
-    let subSchema = getSchema(draft, pointer);
+    const draft = getDraft(schema, this.opts.draft);
+    // the parsed document is shared with the linter and hover
+    const { data } = getParsedDocument(ctx.state, this.opts.jsonParser);
+    const getSubSchema = (pointer: string) => {
+      const subSchema = getSchema(draft, pointer, data ?? undefined);
+      // the data of an object that is being edited often doesn't match
+      // any oneOf branch yet, so try again without the data
+      if (this.isJsonError(subSchema) && data != null) {
+        return getSchema(draft, pointer);
+      }
+      return subSchema;
+    };
+    let subSchema = getSubSchema(pointer);
     // if we don't have a schema for the current pointer, try the parent pointer
     if (
       !subSchema ||
       subSchema.name === "UnknownPropertyError" ||
       subSchema.enum ||
+      this.hasKeywordValues(subSchema) ||
       subSchema.type === "undefined"
     ) {
       pointer = pointer.replace(/\/[^/]*$/, "/");
-      subSchema = getSchema(draft, pointer);
+      subSchema = getSubSchema(pointer);
     }
 
     debug.log("xxx", "pointer..", JSON.stringify(pointer));
 
+    let value: unknown;
+    try {
+      value = gp.get(data, pointer.replace(/\/$/, ""));
+    } catch {}
+    // the `then`/`else` and dependent schemas for the object's current data
+    const getConditionals = (subSchema: JSONSchema7) =>
+      getConditionalSchemas(draft, subSchema, value) as JSONSchema7[];
+    this.branches = new Map();
+
     // For some reason, it returns undefined schema for the root pointer
     if (!pointer || pointer === "/") {
-      return [schema];
+      return [schema, ...getConditionals(schema)];
     }
     // const subSchema = new Draft07(this.schema).getSchema(pointer);
     debug.log("xxx", "subSchema..", subSchema);
@@ -708,26 +1163,46 @@ export class JSONCompletion {
       return [];
     }
 
+    // a resolved `oneOf` only has the properties of its branch,
+    // so complete the properties of every branch
+    const origin = subSchema.getOneOfOrigin?.();
+    if (origin) {
+      subSchema = origin.schema;
+    }
+    const getBranches = (keyword: SchemaBranch["keyword"]) => {
+      const branches: JSONSchema7Definition[] = subSchema[keyword];
+      const matched =
+        keyword === "oneOf" && origin
+          ? origin.index
+          : getBestBranch(draft, keyword, branches as JsonSchema[], value)
+              ?.index;
+      return branches.map((s, index) => {
+        const branch = this.expandSchemaProperty(s, schema);
+        this.branches.set(branch, {
+          keyword,
+          index,
+          matched: index === matched,
+        });
+        return branch;
+      });
+    };
+
+    const conditionals = getConditionals(subSchema);
     if (Array.isArray(subSchema.allOf)) {
       return [
         subSchema,
         ...subSchema.allOf.map((s) => this.expandSchemaProperty(s, schema)),
+        ...conditionals,
       ];
     }
     if (Array.isArray(subSchema.oneOf)) {
-      return [
-        subSchema,
-        ...subSchema.oneOf.map((s) => this.expandSchemaProperty(s, schema)),
-      ];
+      return [subSchema, ...getBranches("oneOf"), ...conditionals];
     }
     if (Array.isArray(subSchema.anyOf)) {
-      return [
-        subSchema,
-        ...subSchema.anyOf.map((s) => this.expandSchemaProperty(s, schema)),
-      ];
+      return [subSchema, ...getBranches("anyOf"), ...conditionals];
     }
 
-    return [subSchema as JSONSchema7];
+    return [subSchema as JSONSchema7, ...conditionals];
   }
 
   isJsonError(d: JSONSchema7 | JsonError): d is JsonError {
@@ -765,7 +1240,9 @@ export class JSONCompletion {
         return;
       }
       if (typeof curReference === "object") {
-        curReference = curReference[cur];
+        // unescape json pointer segments, i.e. inlined external documents
+        curReference =
+          curReference[cur.replace(/~1/g, "/").replace(/~0/g, "~")];
       }
     });
 
@@ -800,11 +1277,12 @@ export class JSONCompletion {
   }
 }
 /**
- * provides a JSON schema enabled autocomplete extension for codemirror
+ * provides a JSON schema enabled autocomplete extension for codemirror.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
  * @group Codemirror Extensions
  */
 export function jsonCompletion(
-  schema: JSONSchema7,
+  schema?: JSONSchema7,
   opts: JSONCompletionOptions = {}
 ) {
   const completion = new JSONCompletion(schema, opts);
@@ -814,15 +1292,25 @@ export function jsonCompletion(
 }
 
 /**
- * provides a JSON schema enabled autocomplete extension for codemirror and json5
+ * a command that inserts the missing `required` properties of the object
+ * at the cursor. Tab moves between their values.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
  * @group Codemirror Extensions
  */
-export function json5Completion(
-  schema: JSONSchema7,
-  opts: Omit<JSONCompletionOptions, "mode"> = {}
-) {
-  const completion = new JSONCompletion(schema, { ...opts, mode: "json5" });
-  return function jsonDoCompletion(ctx: CompletionContext) {
-    return completion.doComplete(ctx);
+export function fillRequiredProperties(
+  schema?: JSONSchema7,
+  opts: JSONCompletionOptions = {}
+): Command {
+  const completion = new JSONCompletion(schema, opts);
+  return function jsonFillRequiredProperties(view: EditorView) {
+    const fill = completion.getRequiredPropertiesSnippet(
+      view.state,
+      view.state.selection.main.head
+    );
+    if (!fill) {
+      return false;
+    }
+    snippet(fill.template)(view, null, fill.from, fill.to);
+    return true;
   };
 }
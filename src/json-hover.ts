@@ -1,19 +1,36 @@
 import { type EditorView, Tooltip } from "@codemirror/view";
-import { type Draft, Draft04, JsonSchema } from "json-schema-library";
+import type { Draft, JsonSchema } from "json-schema-library";
 import type { JSONSchema7 } from "json-schema";
 
 import { JSONMode, jsonPointerForPosition } from "./utils/jsonPointers";
-import { joinWithOr } from "./utils/formatting";
+import { getListLocale, joinList } from "./utils/formatting";
+import type { MessageCatalog } from "./utils/messages";
 import getSchema from "./utils/schema-lib/getSchema";
 import { debug } from "./utils/debug";
 import { Side } from "./types";
 import { el } from "./utils/dom";
+import { getJSONSchema } from "./state";
+import { getDeprecationMessage } from "./utils/deprecation";
+import { getKeywordContext, type KeywordPlugin } from "./utils/keywordPlugins";
+import { getDraft, type JSONSchemaDraft } from "./utils/schemaDraft";
+import {
+  getParsedDocument,
+  type JSONDocumentParser,
+} from "./utils/parsedDocument";
+import { parseJSONDocumentState } from "./utils/parseJSONDocument";
 
 export type CursorData = { schema?: JsonSchema; pointer: string };
 
 export type FoundCursorData = Required<CursorData>;
 
-export type HoverTexts = { message: string; typeInfo: string };
+export type HoverTexts = {
+  message: string;
+  typeInfo: string;
+  /**
+   * shown at the top of the tooltip for deprecated properties
+   */
+  deprecationMessage?: string;
+};
 
 export type HoverOptions = {
   /**
@@ -25,17 +42,41 @@ export type HoverOptions = {
    */
   formatHover?: (data: HoverTexts) => HTMLElement;
   /**
-   * Provide a custom parser for the document
-   * @default JSON.parse
+   * Provide a custom parser for the document text
+   * @deprecated use `jsonParser`, which shares the parsed document with the linter
    */
   parser?: (text: string) => any;
+  /**
+   * Provide a custom parser for the document state
+   * @default parseJSONDocumentState
+   */
+  jsonParser?: JSONDocumentParser;
+  /**
+   * Override the json schema draft detected from `$schema`
+   * @default "draft-07"
+   */
+  draft?: JSONSchemaDraft;
+  /**
+   * Add hover texts for custom schema keywords, i.e. `x-unique-by`
+   */
+  keywords?: KeywordPlugin[];
+  /**
+   * The locale for joining lists of types, i.e. `de`, along with `messages`
+   * @default "en"
+   */
+  locale?: string;
+  /**
+   * Message templates which override `defaultMessages`
+   */
+  messages?: MessageCatalog;
 };
 
 /**
- * provides a JSON schema enabled tooltip extension for codemirror
+ * provides a JSON schema enabled tooltip extension for codemirror.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
  * @group Codemirror Extensions
  */
-export function jsonSchemaHover(schema: JSONSchema7, options?: HoverOptions) {
+export function jsonSchemaHover(schema?: JSONSchema7, options?: HoverOptions) {
   const hover = new JSONHover(schema, options);
   return async function jsonDoHover(view: EditorView, pos: number, side: Side) {
     return hover.doHover(view, pos, side);
@@ -45,45 +86,62 @@ export function jsonSchemaHover(schema: JSONSchema7, options?: HoverOptions) {
 function formatComplexType(
   schema: JsonSchema,
   type: "oneOf" | "anyOf" | "allOf",
-  draft: Draft
+  draft: Draft,
+  locale?: string
 ) {
-  return `${type}: ${joinWithOr(
+  return `${type}: ${joinList(
     schema[type].map((s: JsonSchema) => {
       return s.type ?? draft.resolveRef(s).type;
-    })
+    }),
+    locale
   )}`;
 }
 
 export class JSONHover {
-  private schema: Draft;
-  public constructor(schema: JSONSchema7, private opts?: HoverOptions) {
-    this.schema = new Draft04(schema);
+  private schema?: Draft;
+  private data?: unknown;
+  public constructor(
+    private defaultSchema?: JSONSchema7,
+    private opts?: HoverOptions
+  ) {
     this.opts = {
-      parser: JSON.parse,
+      jsonParser: parseJSONDocumentState,
       ...this.opts,
     };
   }
+
   public getDataForCursor(
-    view: EditorView,
+    view: Pick<EditorView, "state">,
     pos: number,
     side: Side
   ): CursorData | null {
+    const rawSchema = getJSONSchema(view.state, this.defaultSchema);
+    if (!rawSchema) {
+      return null;
+    }
+    // the schema may be swapped at runtime with `updateSchema()`
+    const draft = (this.schema = getDraft(rawSchema, this.opts?.draft));
     const pointer = jsonPointerForPosition(view.state, pos, side);
 
     let data = undefined;
-    // TODO: use the AST tree to return the right hand, data so that we don't have to parse the doc
-    try {
-      data = this.opts!.parser!(view.state.doc.toString());
-    } catch {}
+    if (this.opts?.parser) {
+      try {
+        data = this.opts.parser(view.state.doc.toString());
+      } catch {}
+    } else {
+      data =
+        getParsedDocument(view.state, this.opts?.jsonParser).data ?? undefined;
+    }
 
+    this.data = data;
     if (!pointer) {
       return null;
     }
     // if the data is valid, we can infer a type for complex types
-    let subSchema = getSchema(this.schema, pointer, data);
+    let subSchema = getSchema(draft, pointer, data);
     if (subSchema.type === "error" && data !== undefined) {
       // if the data is invalid, we won't get the type - try again without the data
-      subSchema = getSchema(this.schema, pointer, undefined);
+      subSchema = getSchema(draft, pointer, undefined);
       if (subSchema.type === "error") {
         return { pointer };
       }
@@ -93,23 +151,30 @@ export class JSONHover {
   }
 
   private formatMessage(texts: HoverTexts): HTMLElement {
-    const { message, typeInfo } = texts;
+    const { message, typeInfo, deprecationMessage } = texts;
+    const children: HTMLElement[] = [];
+    if (deprecationMessage) {
+      children.push(
+        el("div", {
+          class: "cm6-json-schema-hover--deprecated",
+          text: deprecationMessage,
+        })
+      );
+    }
     if (message) {
-      return el("div", { class: "cm6-json-schema-hover" }, [
+      children.push(
         el("div", {
           class: "cm6-json-schema-hover--description",
           text: message,
-        }),
-        el("div", { class: "cm6-json-schema-hover--code-wrapper" }, [
-          el("code", { class: "cm6-json-schema-hover--code", text: typeInfo }),
-        ]),
-      ]);
+        })
+      );
     }
-    return el("div", { class: "cm6-json-schema-hover" }, [
+    children.push(
       el("div", { class: "cm6-json-schema-hover--code-wrapper" }, [
         el("code", { class: "cm6-json-schema-hover--code", text: typeInfo }),
-      ]),
-    ]);
+      ])
+    );
+    return el("div", { class: "cm6-json-schema-hover" }, children);
   }
 
   public getHoverTexts(data: FoundCursorData, draft: Draft): HoverTexts {
@@ -117,29 +182,51 @@ export class JSONHover {
     let message = null;
 
     const { schema } = data;
+    const locale = getListLocale(this.opts ?? {});
     if (schema.oneOf) {
-      typeInfo = formatComplexType(schema, "oneOf", draft);
+      typeInfo = formatComplexType(schema, "oneOf", draft, locale);
     }
     if (schema.anyOf) {
-      typeInfo = formatComplexType(schema, "anyOf", draft);
+      typeInfo = formatComplexType(schema, "anyOf", draft, locale);
     }
     if (schema.allOf) {
-      typeInfo = formatComplexType(schema, "allOf", draft);
+      typeInfo = formatComplexType(schema, "allOf", draft, locale);
     }
     if (schema.type) {
       typeInfo = Array.isArray(schema.type)
-        ? joinWithOr(schema.type)
+        ? joinList(schema.type, locale)
         : schema.type;
     }
     if (schema.description) {
       message = schema.description;
     }
+    const keywordTexts = (this.opts?.keywords ?? []).flatMap((plugin) => {
+      const context = getKeywordContext(
+        plugin,
+        schema,
+        data.pointer,
+        this.data
+      );
+      const text = context && plugin.hoverText?.(context);
+      return text ? [text] : [];
+    });
+    if (keywordTexts.length) {
+      message = [message, ...keywordTexts].filter(Boolean).join("\n\n");
+    }
+    const key = data.pointer
+      .slice(data.pointer.lastIndexOf("/") + 1)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    const deprecationMessage = getDeprecationMessage(schema, key, this.opts);
+    if (deprecationMessage) {
+      return { message, typeInfo, deprecationMessage };
+    }
     return { message, typeInfo };
   }
 
   // return hover state for the current json schema property
   public async doHover(
-    view: EditorView,
+    view: Pick<EditorView, "state">,
     pos: number,
     side: Side
   ): Promise<Tooltip | null> {
@@ -150,10 +237,11 @@ export class JSONHover {
       // if we don't have a (sub)schema, we can't show anything
       if (!cursorData?.schema) return null;
 
-      const getHoverTexts = this.opts?.getHoverTexts ?? this.getHoverTexts;
+      const getHoverTexts =
+        this.opts?.getHoverTexts ?? this.getHoverTexts.bind(this);
       const hoverTexts = getHoverTexts(
         cursorData as FoundCursorData,
-        this.schema
+        this.schema as Draft
       );
       // allow users to override the hover
       const formatter = this.opts?.formatHover ?? this.formatMessage;
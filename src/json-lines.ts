@@ -0,0 +1,314 @@
+import type { JSONSchema7 } from "json-schema";
+import { json, jsonLanguage } from "@codemirror/lang-json";
+import { EditorState } from "@codemirror/state";
+import { hoverTooltip, type EditorView } from "@codemirror/view";
+import { linter, type Diagnostic } from "@codemirror/lint";
+import {
+  CompletionContext,
+  type CompletionResult,
+} from "@codemirror/autocomplete";
+import {
+  JSONCompletion,
+  completionStyles,
+  type JSONCompletionOptions,
+} from "./json-completion";
+import { JSONValidation, type JSONValidationOptions } from "./json-validation";
+import { JSONHover, type HoverOptions } from "./json-hover";
+import { getJSONSchema, handleRefresh, stateExtensions } from "./state";
+import { getParsedDocument } from "./utils/parsedDocument";
+import { getFullyParsedState } from "./utils/fullParse";
+import { getErrorPosition } from "./utils/syntaxErrors";
+import type { JSONSchemaOptions } from "./bundled";
+import type { Side } from "./types";
+
+export type JSONLinesSchemaOptions = {
+  /**
+   * The property that selects the schema of a line from `lineSchemas`,
+   * i.e. `"type"` for `{"type": "click", ...}`
+   */
+  discriminator?: string;
+  /**
+   * The schema for each value of the `discriminator`.
+   * Lines with other values are validated against `schema`
+   */
+  lineSchemas?: Record<string, JSONSchema7>;
+};
+
+// the states of lines by their text, so that unchanged lines keep their parse
+// results across edits. lines that weren't used since the last rotation are
+// dropped once `current` is full, which keeps the lines in use
+const LINE_STATES_SIZE = 5000;
+let currentLineStates = new Map<string, EditorState>();
+let previousLineStates = new Map<string, EditorState>();
+
+// each line is a json document of its own
+const getLineState = (state: EditorState, lineNumber: number) => {
+  const text = state.doc.line(lineNumber).text;
+  let lineState = currentLineStates.get(text) ?? previousLineStates.get(text);
+  if (!lineState) {
+    const created = EditorState.create({ doc: text, extensions: [json()] });
+    // long lines are parsed in full, as there is no view to finish the parse
+    lineState = getFullyParsedState(created) ?? created;
+  }
+  if (!currentLineStates.has(text)) {
+    if (currentLineStates.size >= LINE_STATES_SIZE) {
+      previousLineStates = currentLineStates;
+      currentLineStates = new Map();
+    }
+    currentLineStates.set(text, lineState);
+  }
+  return lineState;
+};
+
+/**
+ * return the schema of a line, from `lineSchemas` by the value of its
+ * `discriminator` property, or else the schema of the document
+ * @group Utilities
+ */
+export function getLineSchema(
+  lineState: EditorState,
+  schema: JSONSchema7 | undefined,
+  options: JSONLinesSchemaOptions = {}
+): JSONSchema7 | undefined {
+  const { discriminator, lineSchemas } = options;
+  if (!discriminator || !lineSchemas) {
+    return schema;
+  }
+  const { data } = getParsedDocument(lineState);
+  const value =
+    data && typeof data === "object" ? data[discriminator] : undefined;
+  return typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(lineSchemas, value)
+    ? lineSchemas[value]
+    : schema;
+}
+
+// one validation, hover or completion per schema, as lines may have their own
+const perSchema = <T>(create: (schema: JSONSchema7) => T) => {
+  const instances = new WeakMap<JSONSchema7, T>();
+  return (schema: JSONSchema7) => {
+    let instance = instances.get(schema);
+    if (!instance) {
+      instance = create(schema);
+      instances.set(schema, instance);
+    }
+    return instance;
+  };
+};
+
+/**
+ * Report the syntax errors of each line of a JSON Lines document
+ * @group Codemirror Extensions
+ */
+export function jsonLinesParseLinter() {
+  return function jsonLinesDoParseLint(view: EditorView): Diagnostic[] {
+    const { doc } = view.state;
+    const diagnostics: Diagnostic[] = [];
+    for (let number = 1; number <= doc.lines; number++) {
+      const line = doc.line(number);
+      if (!line.text.trim()) {
+        continue;
+      }
+      try {
+        JSON.parse(line.text);
+      } catch (error) {
+        if (!(error instanceof SyntaxError)) {
+          throw error;
+        }
+        const pos =
+          line.from + getErrorPosition(error, getLineState(view.state, number));
+        diagnostics.push({
+          from: pos,
+          to: pos,
+          message: error.message,
+          severity: "error",
+        });
+      }
+    }
+    return diagnostics;
+  };
+}
+
+/**
+ * Validate each line of a JSON Lines document as a document of its own.
+ * Pointers in messages are prefixed by the line number, i.e. `3.name`.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function jsonLinesSchemaLinter(
+  schema?: JSONSchema7,
+  options: JSONValidationOptions & JSONLinesSchemaOptions = {}
+) {
+  const { discriminator, lineSchemas, ...validationOptions } = options;
+  const validation = new JSONValidation(schema, validationOptions);
+  return function jsonLinesDoValidation(view: EditorView) {
+    const { doc } = view.state;
+    const documentSchema = getJSONSchema(view.state, schema);
+    const diagnostics: Diagnostic[] = [];
+    for (let number = 1; number <= doc.lines; number++) {
+      const line = doc.line(number);
+      if (!line.text.trim()) {
+        continue;
+      }
+      const state = getLineState(view.state, number);
+      diagnostics.push(
+        ...validation.doEmbeddedValidation(view, {
+          state,
+          offset: line.from,
+          pointer: `/${number}`,
+          schema: getLineSchema(state, documentSchema, {
+            discriminator,
+            lineSchemas,
+          }),
+        })
+      );
+    }
+    return diagnostics;
+  };
+}
+
+/**
+ * Hover tooltips for the line under the cursor of a JSON Lines document.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function jsonLinesSchemaHover(
+  schema?: JSONSchema7,
+  options: HoverOptions & JSONLinesSchemaOptions = {}
+) {
+  const { discriminator, lineSchemas, ...hoverOptions } = options;
+  const getHover = perSchema((s) => new JSONHover(s, hoverOptions));
+  return async function jsonLinesDoHover(
+    view: EditorView,
+    pos: number,
+    side: Side
+  ) {
+    const line = view.state.doc.lineAt(pos);
+    const state = getLineState(view.state, line.number);
+    const lineSchema = getLineSchema(state, getJSONSchema(view.state, schema), {
+      discriminator,
+      lineSchemas,
+    });
+    if (!lineSchema) {
+      return null;
+    }
+    const tooltip = await getHover(lineSchema).doHover(
+      { state },
+      pos - line.from,
+      side
+    );
+    return (
+      tooltip && {
+        ...tooltip,
+        pos: tooltip.pos + line.from,
+        end: tooltip.end === undefined ? undefined : tooltip.end + line.from,
+      }
+    );
+  };
+}
+
+/**
+ * Completions for the line at the cursor of a JSON Lines document.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function jsonLinesCompletion(
+  schema?: JSONSchema7,
+  options: JSONCompletionOptions & JSONLinesSchemaOptions = {}
+) {
+  const { discriminator, lineSchemas, ...completionOptions } = options;
+  const getCompletion = perSchema(
+    (s) => new JSONCompletion(s, { ...completionOptions, mode: "json" })
+  );
+  return function jsonLinesDoCompletion(
+    ctx: CompletionContext
+  ): CompletionResult | null {
+    const line = ctx.state.doc.lineAt(ctx.pos);
+    const state = getLineState(ctx.state, line.number);
+    const lineSchema = getLineSchema(state, getJSONSchema(ctx.state, schema), {
+      discriminator,
+      lineSchemas,
+    });
+    if (!lineSchema) {
+      return null;
+    }
+    const result = getCompletion(lineSchema).doComplete(
+      new CompletionContext(state, ctx.pos - line.from, ctx.explicit)
+    );
+    if (!result) {
+      return null;
+    }
+    return {
+      ...result,
+      from: result.from + line.from,
+      to: result.to === undefined ? undefined : result.to + line.from,
+    };
+  };
+}
+
+/**
+ * Full featured cm6 extension for JSON Lines, where each line is a json
+ * document of its own, i.e. a log or dataset file.
+ * The schema can be swapped at runtime with `updateSchema()`
+ * @group Bundled Codemirror Extensions
+ */
+export function jsonLinesSchema(
+  schema?: JSONSchema7,
+  options: Pick<
+    JSONSchemaOptions,
+    | "draft"
+    | "formats"
+    | "keywords"
+    | "locale"
+    | "messages"
+    | "severity"
+    | "renderError"
+    | "completion"
+  > &
+    JSONLinesSchemaOptions = {}
+) {
+  const { discriminator, lineSchemas } = options;
+  return [
+    json(),
+    linter(jsonLinesParseLinter()),
+    linter(
+      jsonLinesSchemaLinter(undefined, {
+        draft: options.draft,
+        formats: options.formats,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+        severity: options.severity,
+        renderError: options.renderError,
+        discriminator,
+        lineSchemas,
+      }),
+      {
+        needsRefresh: handleRefresh,
+      }
+    ),
+    jsonLanguage.data.of({
+      autocomplete: jsonLinesCompletion(undefined, {
+        draft: options.draft,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+        skeletonDepth: options.completion?.skeletonDepth,
+        discriminator,
+        lineSchemas,
+      }),
+    }),
+    completionStyles,
+    hoverTooltip(
+      jsonLinesSchemaHover(undefined, {
+        draft: options.draft,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+        discriminator,
+        lineSchemas,
+      })
+    ),
+    stateExtensions(schema),
+  ];
+}
@@ -0,0 +1,99 @@
+import type { JSONSchema7 } from "json-schema";
+import type { Diagnostic } from "@codemirror/lint";
+import { EditorState } from "@codemirror/state";
+import { json } from "@codemirror/lang-json";
+import { json5 } from "codemirror-json5";
+import { JSONValidation, type JSONValidationOptions } from "./json-validation";
+import { parseJSON5DocumentState } from "./utils/parseJSON5Document";
+import { getFullyParsedState } from "./utils/fullParse";
+import { getSyntaxErrors } from "./utils/syntaxErrors";
+import { translate } from "./utils/messages";
+
+export type TextDiagnostic = {
+  from: number;
+  to: number;
+  /**
+   * the 1-based line and column of `from`
+   */
+  line: number;
+  column: number;
+  /**
+   * the 1-based line and column of `to`
+   */
+  endLine: number;
+  endColumn: number;
+  severity: Diagnostic["severity"];
+  message: string;
+  source?: string;
+};
+
+export type JSONTextValidationOptions = JSONValidationOptions & {
+  /**
+   * @default "json"
+   */
+  mode?: "json" | "json5";
+  /**
+   * The milliseconds to spend parsing the text. A text that isn't parsed
+   * within that time is reported with a single `parse-timeout-error`
+   * @default Infinity
+   */
+  timeout?: number;
+};
+
+/**
+ * Validate json or json5 text against a schema without an `EditorView`,
+ * i.e. in node for CI or pre-commit hooks.
+ * Syntax errors and schema errors have the same messages as in the editor
+ * @group Utilities
+ */
+export function validateJSONText(
+  text: string,
+  schema: JSONSchema7,
+  options: JSONTextValidationOptions = {}
+): TextDiagnostic[] {
+  const { mode = "json", timeout, ...validationOptions } = options;
+  const state = getFullyParsedState(
+    EditorState.create({
+      doc: text,
+      extensions: [mode === "json5" ? json5() : json()],
+    }),
+    timeout
+  );
+  if (!state) {
+    // a partial syntax tree would leave the rest of the text unvalidated
+    return [
+      {
+        from: 0,
+        to: 0,
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 1,
+        severity: "error",
+        message: translate("parse-timeout-error", { timeout }, options)!,
+      },
+    ];
+  }
+  const syntaxErrors = getSyntaxErrors(state, mode);
+  const schemaErrors = new JSONValidation(schema, {
+    ...(mode === "json5" ? { jsonParser: parseJSON5DocumentState } : {}),
+    ...validationOptions,
+  }).doStateValidation(state);
+  return [...syntaxErrors, ...schemaErrors].map(
+    ({ from, to, severity, message, source }) => {
+      const start = state.doc.lineAt(from);
+      const end = state.doc.lineAt(to);
+      return {
+        from,
+        to,
+        line: start.number,
+        column: from - start.from + 1,
+        endLine: end.number,
+        endColumn: to - end.from + 1,
+        severity,
+        message,
+        ...(source ? { source } : {}),
+      };
+    }
+  );
+}
@@ -1,11 +1,32 @@
 import type { EditorView } from "@codemirror/view";
+import type { EditorState } from "@codemirror/state";
 import type { Diagnostic } from "@codemirror/lint";
 import type { JSONSchema7 } from "json-schema";
-import { Draft04, type Draft, type JsonError } from "json-schema-library";
-import { joinWithOr } from "./utils/formatting";
-import { JSONPointerData } from "./types";
+import type { Draft, JsonError } from "json-schema-library";
+import gp from "@sagold/json-pointer";
+import { getListLocale, joinList } from "./utils/formatting";
+import { translate, type MessageCatalog } from "./utils/messages";
+import { JSONPartialPointerData, JSONPointerData } from "./types";
 import { parseJSONDocumentState } from "./utils/parseJSONDocument";
 import { RequiredPick } from "./types";
+import { getJSONSchema } from "./state";
+import { getDraft, type JSONSchemaDraft } from "./utils/schemaDraft";
+import { getParsedDocument, type ParsedDocument } from "./utils/parsedDocument";
+import { getDeprecationMessage, hasDeprecations } from "./utils/deprecation";
+import {
+  getActivePlugins,
+  getKeywordContext,
+  type KeywordPlugin,
+} from "./utils/keywordPlugins";
+import {
+  defaultFormats,
+  withFormats,
+  type FormatValidator,
+} from "./utils/formats";
+import { getQuickFixes } from "./utils/quickFixes";
+import { expandBranchErrors, type SchemaBranch } from "./utils/bestBranch";
+import getSchema from "./utils/schema-lib/getSchema";
+import { el } from "./utils/dom";
 
 // return an object path that matches with the json-source-map pointer
 const getErrorPath = (error: JsonError): string => {
@@ -21,19 +42,227 @@ const getErrorPath = (error: JsonError): string => {
   return "";
 };
 
+// the schema keyword behind each json-schema-library error
+const ERROR_KEYWORDS: Record<string, string> = {
+  AdditionalItemsError: "additionalItems",
+  AdditionalPropertiesError: "additionalProperties",
+  NoAdditionalPropertiesError: "additionalProperties",
+  AllOfError: "allOf",
+  AnyOfError: "anyOf",
+  OneOfError: "oneOf",
+  MultipleOneOfError: "oneOf",
+  NotError: "not",
+  ConstError: "const",
+  ContainsError: "contains",
+  ContainsAnyError: "contains",
+  EnumError: "enum",
+  TypeError: "type",
+  RequiredPropertyError: "required",
+  MissingDependencyError: "dependencies",
+  InvalidPropertyNameError: "propertyNames",
+  PatternPropertiesError: "patternProperties",
+  PatternError: "pattern",
+  MaximumError: "maximum",
+  MinimumError: "minimum",
+  MultipleOfError: "multipleOf",
+  MaxItemsError: "maxItems",
+  MinItemsError: "minItems",
+  MinItemsOneError: "minItems",
+  MaxLengthError: "maxLength",
+  MinLengthError: "minLength",
+  MinLengthOneError: "minLength",
+  MaxPropertiesError: "maxProperties",
+  MinPropertiesError: "minProperties",
+  UniqueItemsError: "uniqueItems",
+  DeprecatedPropertyWarning: "deprecated",
+};
+
+// errors that are reported on the property key, rather than its value
+const PROPERTY_ERRORS = [
+  "NoAdditionalPropertiesError",
+  "DeprecatedPropertyWarning",
+  "DuplicateKeyError",
+];
+
+// array items that couldn't be parsed are `undefined`, so that the items
+// after them keep their indices. the parse linter reports them instead
+const isUnparsedItem = (data: unknown, path: string) => {
+  const index = path.lastIndexOf("/");
+  if (index === -1) {
+    return false;
+  }
+  try {
+    const parent = gp.get(data, path.slice(0, index));
+    return (
+      Array.isArray(parent) && parent[+path.slice(index + 1)] === undefined
+    );
+  } catch {
+    return false;
+  }
+};
+
+// the unescaped property name of a pointer, i.e. `a/b` for `/object/a~1b`
+const getPointerKey = (pointer: string) =>
+  pointer
+    .slice(pointer.lastIndexOf("/") + 1)
+    .replace(/~1/g, "/")
+    .replace(/~0/g, "~");
+
+const KEYWORD_DOCS_URL =
+  "https://json-schema.org/understanding-json-schema/keywords";
+
+/**
+ * return the schema keyword that failed for a validation error, i.e. `required`
+ * @group Utilities
+ */
+export const getErrorKeyword = (error: JsonError): string | undefined =>
+  error.name.startsWith("Format") ? "format" : ERROR_KEYWORDS[error.name];
+
+export type ErrorTexts = {
+  /**
+   * the error message, with `code` fragments quoted in backticks
+   */
+  message: string;
+  /**
+   * the schema keyword that failed, i.e. `required`
+   */
+  keyword?: string;
+  /**
+   * the `description` of the failing property's schema
+   */
+  description?: string;
+  /**
+   * other locations of the error, i.e. the first occurrence of a duplicate key
+   */
+  related?: RelatedInformation[];
+  error: JsonError;
+};
+
+export type RelatedInformation = {
+  message: string;
+  from: number;
+  to: number;
+  /**
+   * select the location in the editor
+   */
+  select: () => void;
+};
+
+/**
+ * the severity of a schema diagnostic, or `"off"` to suppress it
+ */
+export type SchemaSeverity = Diagnostic["severity"] | "off";
+
+const SEVERITIES: SchemaSeverity[] = [
+  "error",
+  "warning",
+  "info",
+  "hint",
+  "off",
+];
+
+// errors created by this library, with messages that need no rewriting,
+// i.e. deprecation messages from the schema, or messages from plugins
+const READABLE_ERRORS = ["DeprecatedPropertyWarning", "KeywordError"];
+
+// i.e. `#/object/foo` as `object.foo`
+const formatPointer = (pointer?: string) =>
+  pointer?.replaceAll("#/", "").replaceAll("/", ".");
+
+// the severity of errors that aren't in the `severity` option
+const DEFAULT_SEVERITIES: Record<string, SchemaSeverity> = {
+  "deprecated-property-warning": "warning",
+  "duplicate-key-error": "warning",
+};
+
+const isSchemaSeverity = (value: unknown): value is SchemaSeverity =>
+  SEVERITIES.includes(value as SchemaSeverity);
+
 export type JSONValidationOptions = {
   formatError?: (error: JsonError) => string;
+  /**
+   * Generate the diagnostic tooltip HTML
+   */
+  renderError?: (texts: ErrorTexts) => HTMLElement;
   jsonParser?: typeof parseJSONDocumentState;
+  /**
+   * Override the json schema draft detected from `$schema`.
+   * `2019-09` and `2020-12` schemas are validated as draft-07
+   * @default "draft-07"
+   */
+  draft?: JSONSchemaDraft;
+  /**
+   * The severity for each json-schema-library error code,
+   * i.e. `{ "no-additional-properties-error": "warning" }`.
+   * Use `"off"` to suppress a code entirely.
+   * Schemas may override it with an `x-severity` keyword on the failing node,
+   * either a severity, or a map of error codes to severities
+   * @default "error"
+   */
+  severity?: Record<string, SchemaSeverity>;
+  /**
+   * Validators for `format` values by name, i.e. `{ "semver": (value) => ... }`.
+   * merged with the built-in `defaultFormats`
+   */
+  formats?: Record<string, FormatValidator>;
+  /**
+   * Validate custom schema keywords, i.e. `x-unique-by`
+   */
+  keywords?: KeywordPlugin[];
+  /**
+   * The locale for joining lists in messages, i.e. `de`, along with `messages`
+   * @default "en"
+   */
+  locale?: string;
+  /**
+   * Message templates by error code, which override `defaultMessages`
+   */
+  messages?: MessageCatalog;
 };
 
 type JSONValidationSettings = RequiredPick<JSONValidationOptions, "jsonParser">;
 
+type ValidationRequest = {
+  // without a schema, only the errors that need none are reported
+  rawSchema?: JSONSchema7;
+  schema?: Draft;
+  text: string;
+  offset: number;
+  pointer: string;
+};
+
+type ValidationContext = ValidationRequest & { json: ParsedDocument };
+
+/**
+ * a part of the document to validate as a document of its own,
+ * i.e. a line of JSON Lines
+ */
+export type EmbeddedDocument = {
+  /**
+   * the part, as a state of its own
+   */
+  state: EditorState;
+  /**
+   * where the part starts in the whole document
+   */
+  offset: number;
+  /**
+   * the pointer of the part, i.e. `/3`, which prefixes the pointers in messages
+   */
+  pointer: string;
+  /**
+   * @default the linter's schema
+   */
+  schema?: JSONSchema7;
+};
+
 /**
- * Helper for simpler class instantiaton
+ * Helper for simpler class instantiaton.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
  * @group Codemirror Extensions
  */
 export function jsonSchemaLinter(
-  schema: JSONSchema7,
+  schema?: JSONSchema7,
   options?: JSONValidationOptions
 ) {
   const validation = new JSONValidation(schema, options);
@@ -43,76 +272,465 @@ export function jsonSchemaLinter(
 }
 
 export class JSONValidation {
-  private schema: Draft;
   private options: JSONValidationSettings;
-  public constructor(schema: JSONSchema7, options?: JSONValidationOptions) {
+  private formats: Record<string, FormatValidator>;
+  public constructor(
+    private defaultSchema?: JSONSchema7,
+    options?: JSONValidationOptions
+  ) {
     this.options = {
       jsonParser: parseJSONDocumentState,
       ...options,
     };
-
-    // TODO: support other versions of json schema.
-    // most standard schemas are draft 4 for some reason, probably
-    // backwards compatibility
-    //
-    // ajv did not support draft 4, so I used json-schema-library
-    this.schema = new Draft04(schema);
+    this.formats = { ...defaultFormats, ...options?.formats };
   }
-  private get schemaTitle() {
-    return this.schema.getSchema().title ?? "json-schema";
+
+  private getSchemaTitle(schema: Draft | undefined) {
+    return schema?.getSchema().title ?? "json-schema";
   }
 
-  // rewrite the error message to be more human readable
-  private rewriteError = (error: JsonError): string => {
+  // rewrite the error message to be more human readable,
+  // and say which `oneOf` or `anyOf` branch was assumed
+  private rewriteError = (error: JsonError, prefix = ""): string => {
+    const message = this.rewriteErrorMessage(error, prefix);
+    const branch: SchemaBranch | undefined = error.data?.branch;
+    if (!branch) {
+      return message;
+    }
+    return (
+      translate(
+        "assumed-branch",
+        { message, branch: branch.label, keyword: branch.keyword },
+        this.options
+      ) ?? message
+    );
+  };
+
+  private rewriteErrorMessage(error: JsonError, prefix: string): string {
+    if (READABLE_ERRORS.includes(error.name)) {
+      return error.message;
+    }
+    const locale = getListLocale(this.options);
+    const pointer: string | undefined = error.data?.pointer;
+    const data: Record<string, any> = {
+      ...error.data,
+      pointer: formatPointer(
+        pointer && prefix ? `#${prefix}${pointer.replace(/^#/, "")}` : pointer
+      ),
+    };
     if (error.code === "one-of-error") {
-      return `Expected one of ${joinWithOr(
-        error?.data?.errors,
-        (data) => data.data.expected
-      )}`;
+      data.expected = joinList(
+        (error.data?.errors ?? []).map((e: JsonError) =>
+          JSON.stringify(e.data?.expected)
+        ),
+        locale
+      );
     }
     if (error.code === "type-error") {
-      return `Expected \`${
-        error?.data?.expected && Array.isArray(error?.data?.expected)
-          ? joinWithOr(error?.data?.expected)
-          : error?.data?.expected
-      }\` but received \`${error?.data?.received}\``;
+      data.expected = joinList([error.data?.expected].flat(), locale);
     }
-    const message = error.message.replaceAll("#/", "").replaceAll("/", ".");
+    return (
+      translate(error.code, data, this.options) ??
+      error.message.replaceAll("#/", "").replaceAll("/", ".")
+    );
+  }
 
-    return message;
-  };
+  private getSubSchema(
+    schema: Draft | undefined,
+    pointer: string,
+    data: unknown
+  ) {
+    if (!schema) {
+      return undefined;
+    }
+    let subSchema = getSchema(schema, pointer, data);
+    if (subSchema.type === "error") {
+      // the data may not match, i.e. for oneOf
+      subSchema = getSchema(schema, pointer);
+    }
+    return subSchema.type === "error" ? undefined : subSchema;
+  }
 
-  // validate using view as the linter extension signature requires
-  public doValidation(view: EditorView) {
-    if (!this.schema) return [];
-    const text = view.state.doc.toString();
+  // describe the failing property, or for missing properties, the property that's missing
+  private getErrorDescription(
+    schema: Draft | undefined,
+    error: JsonError,
+    errorPath: string,
+    data: unknown
+  ): string | undefined {
+    const pointer =
+      error.name === "RequiredPropertyError"
+        ? `${errorPath}/${error.data?.key}`
+        : errorPath;
+    const description = this.getSubSchema(schema, pointer, data)?.description;
+    return typeof description === "string" ? description : undefined;
+  }
+
+  // `x-severity` on the failing node wins over the `severity` option
+  private getSeverity(
+    schema: Draft | undefined,
+    error: JsonError,
+    data: unknown
+  ): SchemaSeverity {
+    // the node with the failing keyword, i.e. the object for `required`
+    const nodePointer = error.data?.pointer?.replace(/^#/, "") ?? "";
+    const nodeSeverity = this.getSubSchema(schema, nodePointer, data)?.[
+      "x-severity"
+    ];
+    if (isSchemaSeverity(nodeSeverity)) {
+      return nodeSeverity;
+    }
+    if (nodeSeverity && isSchemaSeverity(nodeSeverity[error.code])) {
+      return nodeSeverity[error.code];
+    }
+    return (
+      this.options.severity?.[error.code] ??
+      DEFAULT_SEVERITIES[error.code] ??
+      "error"
+    );
+  }
+
+  private formatMessage(texts: ErrorTexts): HTMLElement {
+    const { message, keyword, description, related } = texts;
+    // backtick-quoted fragments are rendered as code
+    const parts = message
+      .split("`")
+      .map((text, i) =>
+        i % 2
+          ? el("code", { class: "cm6-json-schema-error--code", text })
+          : el("span", { text })
+      );
+    const children = [
+      el("div", { class: "cm6-json-schema-error--message" }, parts),
+    ];
+    if (description) {
+      children.push(
+        el("div", {
+          class: "cm6-json-schema-error--description",
+          text: description,
+        })
+      );
+    }
+    related?.forEach((info) => {
+      const link = el("a", {
+        class: "cm6-json-schema-error--related",
+        href: "#",
+        text: info.message,
+      });
+      link.addEventListener("click", (event) => {
+        event.preventDefault();
+        info.select();
+      });
+      children.push(link);
+    });
+    if (keyword) {
+      children.push(
+        el(
+          "a",
+          {
+            class: "cm6-json-schema-error--keyword",
+            href: `${KEYWORD_DOCS_URL}#${keyword}`,
+            target: "_blank",
+            rel: "noopener noreferrer",
+          },
+          [el("code", { text: keyword })]
+        )
+      );
+    }
+    return el("div", { class: "cm6-json-schema-error" }, children);
+  }
+
+  // validate every value whose subschema has a plugin keyword
+  private getKeywordErrors(
+    rawSchema: JSONSchema7,
+    schema: Draft | undefined,
+    json: ParsedDocument
+  ): JsonError[] {
+    const plugins = getActivePlugins(rawSchema, this.options.keywords);
+    if (!plugins.some((plugin) => plugin.validate)) {
+      return [];
+    }
+    const errors: JsonError[] = [];
+    json.pointers.forEach((_pointer, path) => {
+      const subSchema = this.getSubSchema(schema, path, json.data);
+      plugins.forEach((plugin) => {
+        const context = getKeywordContext(plugin, subSchema, path, json.data);
+        if (!context || !plugin.validate) {
+          return;
+        }
+        plugin.validate(context)?.forEach(({ message, pointer = path }) => {
+          errors.push({
+            type: "error",
+            name: "KeywordError",
+            code: `${plugin.keyword}-error`,
+            message,
+            data: { pointer: `#${pointer}`, keyword: plugin.keyword },
+          });
+        });
+      });
+    });
+    return errors;
+  }
+
+  // warn about every deprecated property that is present in the document
+  private getDeprecationWarnings(
+    rawSchema: JSONSchema7,
+    schema: Draft | undefined,
+    json: ParsedDocument
+  ): JsonError[] {
+    if (!hasDeprecations(rawSchema)) {
+      return [];
+    }
+    const warnings: JsonError[] = [];
+    json.pointers.forEach((pointer, path) => {
+      // array items and the root have no key
+      if (!path || pointer.keyFrom === (pointer as JSONPointerData).valueFrom) {
+        return;
+      }
+      const key = getPointerKey(path);
+      const message = getDeprecationMessage(
+        this.getSubSchema(schema, path, json.data),
+        key,
+        this.options
+      );
+      if (message) {
+        warnings.push({
+          type: "error",
+          name: "DeprecatedPropertyWarning",
+          code: "deprecated-property-warning",
+          message,
+          data: { pointer: `#${path}`, property: key },
+        });
+      }
+    });
+    return warnings;
+  }
+
+  // report the keys that repeat an earlier key of the same object
+  private getDuplicateKeyErrors(json: ParsedDocument): JsonError[] {
+    const errors: JsonError[] = [];
+    json.pointers.forEach(({ occurrences }, path) => {
+      if (!occurrences) {
+        return;
+      }
+      const key = getPointerKey(path);
+      const [first, ...duplicates] = occurrences;
+      duplicates.forEach((occurrence) => {
+        errors.push({
+          type: "error",
+          name: "DuplicateKeyError",
+          code: "duplicate-key-error",
+          message: `Duplicate key \`${key}\``,
+          data: { pointer: `#${path}`, key, occurrence, first },
+        });
+      });
+    });
+    return errors;
+  }
+
+  // link to the first occurrence of duplicate keys
+  private getRelatedInformation(
+    error: JsonError,
+    view: EditorView | undefined,
+    offset: number
+  ): RelatedInformation[] | undefined {
+    const duplicate: JSONPartialPointerData | undefined = error.data?.first;
+    if (error.name !== "DuplicateKeyError" || !duplicate || !view) {
+      return undefined;
+    }
+    const first = {
+      keyFrom: duplicate.keyFrom + offset,
+      keyTo: duplicate.keyTo + offset,
+    };
+    const message =
+      translate("first-occurrence", { key: error.data?.key }, this.options) ??
+      error.data?.key;
+    return [
+      {
+        message,
+        from: first.keyFrom,
+        to: first.keyTo,
+        select() {
+          const length = view.state.doc.length;
+          view.dispatch({
+            selection: {
+              anchor: Math.min(first.keyFrom, length),
+              head: Math.min(first.keyTo, length),
+            },
+            scrollIntoView: true,
+          });
+          view.focus();
+        },
+      },
+    ];
+  }
+
+  // the schema and text to validate, or `undefined` to skip validation
+  private getValidationRequest({
+    state,
+    offset,
+    pointer,
+    schema: rawSchema = getJSONSchema(state, this.defaultSchema),
+  }: EmbeddedDocument): ValidationRequest | undefined {
+    // each document keeps its own draft, i.e. for json lines with line schemas
+    const schema = rawSchema && getDraft(rawSchema, this.options.draft);
+    const text = state.doc.toString();
 
     // ignore blank json strings
-    if (!text || text.trim().length < 3) return [];
+    if (!text || text.trim().length < 3) return undefined;
+
+    return { rawSchema, schema, text, offset, pointer };
+  }
 
-    const json = this.options.jsonParser(view.state);
+  // the request with the parsed document to map its errors to
+  private getValidationContext(
+    document: EmbeddedDocument
+  ): ValidationContext | undefined {
+    const request = this.getValidationRequest(document);
+    if (!request) return undefined;
+    const json = getParsedDocument(document.state, this.options.jsonParser);
+    return { ...request, json };
+  }
 
-    let errors: JsonError[] = [];
+  // the schema errors, with the errors of the best `oneOf` or `anyOf` branch
+  private validate({ schema, json }: ValidationContext): JsonError[] {
+    if (!schema) return [];
     try {
-      errors = this.schema.validate(json.data);
-    } catch {}
+      const draft = withFormats(schema, this.formats);
+      return expandBranchErrors(draft, draft.validate(json.data), json.data);
+    } catch {
+      return [];
+    }
+  }
+
+  // validate using view as the linter extension signature requires
+  public doValidation(view: EditorView) {
+    return this.doEmbeddedValidation(view, {
+      state: view.state,
+      offset: 0,
+      pointer: "",
+    });
+  }
+
+  /**
+   * validate without a view, i.e. in node.
+   * diagnostics have no related information, which needs a view to select it
+   */
+  public doStateValidation(state: EditorState) {
+    const context = this.getValidationContext({
+      state,
+      offset: 0,
+      pointer: "",
+    });
+    if (!context) return [];
+    return this.getDiagnostics(undefined, context, this.validate(context));
+  }
+
+  /**
+   * validate a part of the document as a document of its own,
+   * with diagnostics positioned in the whole document
+   */
+  public doEmbeddedValidation(view: EditorView, document: EmbeddedDocument) {
+    const context = this.getValidationContext(document);
+    if (!context) return [];
+    return this.getDiagnostics(view, context, this.validate(context));
+  }
+
+  /**
+   * validate with the given function, i.e. in a web worker, which resolves
+   * the errors of `expandBranchErrors()`, or `null` for superseded requests.
+   * validates in-thread when it fails
+   */
+  public async doAsyncValidation(
+    view: EditorView,
+    validate: (text: string, schema: JSONSchema7) => Promise<JsonError[] | null>
+  ): Promise<Diagnostic[]> {
+    // the state and draft of this version, as the view moves on meanwhile
+    const { state } = view;
+    const request = this.getValidationRequest({
+      state,
+      offset: 0,
+      pointer: "",
+    });
+    if (!request) return [];
+    // the document is only parsed once the errors are known
+    const getContext = (): ValidationContext => ({
+      ...request,
+      json: getParsedDocument(state, this.options.jsonParser),
+    });
+    let errors: JsonError[] | null = [];
+    if (request.rawSchema) {
+      try {
+        errors = await validate(request.text, request.rawSchema);
+      } catch {
+        const context = getContext();
+        return this.getDiagnostics(view, context, this.validate(context));
+      }
+    }
+    // a newer document version is being validated, and the linter
+    // ignores results for older versions anyway
+    if (!errors) return [];
+    return this.getDiagnostics(view, getContext(), errors);
+  }
+
+  // map schema errors, and the errors this library adds, to diagnostics
+  private getDiagnostics(
+    view: EditorView | undefined,
+    { rawSchema, schema, json, offset, pointer: prefix }: ValidationContext,
+    schemaErrors: JsonError[]
+  ): Diagnostic[] {
+    const errors = [
+      ...schemaErrors,
+      ...(rawSchema
+        ? [
+            ...this.getKeywordErrors(rawSchema, schema, json),
+            ...this.getDeprecationWarnings(rawSchema, schema, json),
+          ]
+        : []),
+      // duplicate keys are reported with or without a schema
+      ...this.getDuplicateKeyErrors(json),
+    ];
 
     if (!errors.length) return [];
     // reduce() because we want to filter out errors that don't have a pointer
     return errors.reduce((acc, error) => {
       const errorPath = getErrorPath(error);
       const pointer = json.pointers.get(errorPath) as JSONPointerData;
-      if (pointer) {
+      const severity =
+        pointer &&
+        !isUnparsedItem(json.data, errorPath) &&
+        this.getSeverity(schema, error, json.data);
+      if (severity && severity !== "off") {
         // if the error is a property error, use the key position
-        const isPropertyError = error.name === "NoAdditionalPropertiesError";
+        const isPropertyError = PROPERTY_ERRORS.includes(error.name);
+        // duplicate keys are reported on their own occurrence
+        const range: JSONPointerData = error.data?.occurrence ?? pointer;
+        const actions = getQuickFixes(schema, error, json.data, this.options);
+        const message = this.rewriteError(error, prefix);
         acc.push({
-          from: isPropertyError ? pointer.keyFrom : pointer.valueFrom,
-          to: isPropertyError ? pointer.keyTo : pointer.valueTo,
-          // TODO: create a domnode and replace `` with <code></code>
-          // renderMessage: () => error.message,
-          message: this.rewriteError(error),
-          severity: "error",
-          source: this.schemaTitle,
+          from: offset + (isPropertyError ? range.keyFrom : range.valueFrom),
+          to: offset + (isPropertyError ? range.keyTo : range.valueTo),
+          message,
+          renderMessage: () => {
+            const texts: ErrorTexts = {
+              message,
+              keyword: getErrorKeyword(error),
+              description: this.getErrorDescription(
+                schema,
+                error,
+                errorPath,
+                json.data
+              ),
+              related: this.getRelatedInformation(error, view, offset),
+              error,
+            };
+            // allow users to override the tooltip
+            const formatter = this.options.renderError ?? this.formatMessage;
+            return formatter(texts);
+          },
+          severity,
+          source: this.getSchemaTitle(schema),
+          ...(actions.length ? { actions } : {}),
         });
       }
       return acc;
@@ -0,0 +1,61 @@
+import type { EditorView } from "@codemirror/view";
+import type { JSONSchema7 } from "json-schema";
+import { JSONValidation, type JSONValidationOptions } from "./json-validation";
+import type { JSONMode } from "./utils/jsonPointers";
+import { parseJSON5DocumentState } from "./utils/parseJSON5Document";
+import {
+  ValidationClient,
+  type ValidationTransport,
+} from "./utils/validationWorker";
+
+export type { ValidationTransport };
+
+export type JSONWorkerValidationOptions = JSONValidationOptions & {
+  /**
+   * The worker to validate in, i.e. `new Worker(...)`.
+   * Without it, validation runs in-thread
+   */
+  transport?: ValidationTransport;
+  /**
+   * @default "json4"
+   */
+  mode?: JSONMode;
+  /**
+   * How long to wait for the worker before validating in-thread, in milliseconds
+   * @default 10000
+   */
+  timeout?: number;
+};
+
+/**
+ * Validates in a web worker that runs `exposeValidationWorker()`,
+ * so that large documents don't block typing.
+ * Diagnostics are mapped to ranges on the main thread,
+ * and validation falls back to the main thread when the worker fails.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function jsonSchemaWorkerLinter(
+  schema?: JSONSchema7,
+  options?: JSONWorkerValidationOptions
+) {
+  const {
+    transport,
+    mode = "json4",
+    timeout,
+    ...validationOptions
+  } = options ?? {};
+  const validation = new JSONValidation(schema, {
+    ...(mode === "json5" ? { jsonParser: parseJSON5DocumentState } : {}),
+    ...validationOptions,
+  });
+  const client = transport && new ValidationClient(transport, timeout);
+  return function jsonDoWorkerValidation(view: EditorView) {
+    if (!client) {
+      return validation.doValidation(view);
+    }
+    return validation.doAsyncValidation(view, (text, schema) =>
+      client.validate({ text, schema, mode, draft: validationOptions.draft })
+    );
+  };
+}
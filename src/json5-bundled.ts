@@ -1,24 +1,64 @@
 import { JSONSchema7 } from "json-schema";
 import { json5, json5Language, json5ParseLinter } from "codemirror-json5";
 import { hoverTooltip } from "@codemirror/view";
-import { json5Completion } from "./json-completion";
+import { json5Completion } from "./json5-completion";
+import { completionStyles } from "./json-completion";
 import { json5SchemaLinter } from "./json5-validation";
 import { json5SchemaHover } from "./json5-hover";
 
 import { linter } from "@codemirror/lint";
+import { handleRefresh, stateExtensions } from "./state";
+import { refLoader } from "./ref-loader";
+import { schemaRegistry } from "./schema-registry";
+import type { JSONSchemaOptions } from "./bundled";
 
 /**
  * Full featured cm6 extension for json5, including `codemirror-json5`
+ * The schema can be swapped at runtime with `updateSchema()`
  * @group Bundled Codemirror Extensions
  */
-export function json5Schema(schema: JSONSchema7) {
+export function json5Schema(
+  schema?: JSONSchema7,
+  options: JSONSchemaOptions = {}
+) {
   return [
     json5(),
     linter(json5ParseLinter()),
-    linter(json5SchemaLinter(schema)),
+    linter(
+      json5SchemaLinter(undefined, {
+        draft: options.draft,
+        formats: options.formats,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+        severity: options.severity,
+        renderError: options.renderError,
+      }),
+      {
+        needsRefresh: handleRefresh,
+      }
+    ),
     json5Language.data.of({
-      autocomplete: json5Completion(schema),
+      autocomplete: json5Completion(undefined, {
+        draft: options.draft,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+        skeletonDepth: options.completion?.skeletonDepth,
+      }),
     }),
-    hoverTooltip(json5SchemaHover(schema)),
+    completionStyles,
+    hoverTooltip(
+      json5SchemaHover(undefined, {
+        draft: options.draft,
+        keywords: options.keywords,
+        locale: options.locale,
+        messages: options.messages,
+      })
+    ),
+    options.schemas
+      ? schemaRegistry(options.schemas, { fallback: schema })
+      : stateExtensions(schema),
+    options.loadSchema ? refLoader({ loadSchema: options.loadSchema }) : [],
   ];
 }
@@ -0,0 +1,44 @@
+import type { CompletionContext } from "@codemirror/autocomplete";
+import type { JSONSchema7 } from "json-schema";
+import {
+  JSONCompletion,
+  fillRequiredProperties,
+  type JSONCompletionOptions,
+} from "./json-completion";
+import { parseJSON5DocumentState } from "./utils/parseJSON5Document";
+
+/**
+ * provides a JSON schema enabled autocomplete extension for codemirror and json5.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function json5Completion(
+  schema?: JSONSchema7,
+  opts: Omit<JSONCompletionOptions, "mode"> = {}
+) {
+  const completion = new JSONCompletion(schema, {
+    jsonParser: parseJSON5DocumentState,
+    ...opts,
+    mode: "json5",
+  });
+  return function jsonDoCompletion(ctx: CompletionContext) {
+    return completion.doComplete(ctx);
+  };
+}
+
+/**
+ * a command that inserts the missing `required` properties of the json5
+ * object at the cursor. Tab moves between their values.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function json5FillRequiredProperties(
+  schema?: JSONSchema7,
+  opts: Omit<JSONCompletionOptions, "mode"> = {}
+) {
+  return fillRequiredProperties(schema, {
+    jsonParser: parseJSON5DocumentState,
+    ...opts,
+    mode: "json5",
+  });
+}
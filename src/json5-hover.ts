@@ -1,22 +1,23 @@
 import { type EditorView } from "@codemirror/view";
 import { type HoverOptions, JSONHover } from "./json-hover";
 import { type JSONSchema7 } from "json-schema";
-import json5 from "json5";
+import { parseJSON5DocumentState } from "./utils/parseJSON5Document";
 import { Side } from "./types";
 
 export type JSON5HoverOptions = Exclude<HoverOptions, "mode">;
 
 /**
- * Instantiates a JSONHover instance with the JSON5 mode
+ * Instantiates a JSONHover instance with the JSON5 mode.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
  * @group Codemirror Extensions
  */
 export function json5SchemaHover(
-  schema: JSONSchema7,
+  schema?: JSONSchema7,
   options?: JSON5HoverOptions
 ) {
   const hover = new JSONHover(schema, {
     ...options,
-    parser: json5.parse,
+    jsonParser: parseJSON5DocumentState,
   });
   return async function jsonDoHover(view: EditorView, pos: number, side: Side) {
     return hover.doHover(view, pos, side);
@@ -4,11 +4,12 @@ import type { JSONSchema7 } from "json-schema";
 import { parseJSON5DocumentState } from "./utils/parseJSON5Document";
 
 /**
- * Instantiates a JSONValidation instance with the JSON5 mode
+ * Instantiates a JSONValidation instance with the JSON5 mode.
+ * When `schema` is omitted, the schema is read from `stateExtensions()`
  * @group Codemirror Extensions
  */
 export function json5SchemaLinter(
-  schema: JSONSchema7,
+  schema?: JSONSchema7,
   options?: JSONValidationOptions
 ) {
   const validation = new JSONValidation(schema, {
@@ -1,11 +1,34 @@
 // json5
 export { json5SchemaLinter } from "./json5-validation";
+export { jsonSchemaWorkerLinter } from "./json-worker-validation";
+export { validateJSONText } from "./json-text-validation";
 export { json5SchemaHover } from "./json5-hover";
-export { json5Completion } from "./json-completion";
+export {
+  json5Completion,
+  json5FillRequiredProperties,
+} from "./json5-completion";
+export { completionOptionClass, completionStyles } from "./json-completion";
 
 /**
  * @group Bundled Codemirror Extensions
  */
 export { json5Schema } from "./json5-bundled";
 
+export {
+  updateSchema,
+  getJSONSchema,
+  stateExtensions,
+  handleRefresh,
+  schemaStateField,
+} from "./state";
+export { refLoader } from "./ref-loader";
+export {
+  schemaRegistry,
+  documentUri,
+  selectSchema,
+  getDocumentSchemaUri,
+  type SchemaRegistryEntry,
+  type SchemaRegistryOptions,
+} from "./schema-registry";
+
 export * from "./utils/parseJSON5Document";
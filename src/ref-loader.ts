@@ -0,0 +1,51 @@
+import { ViewPlugin } from "@codemirror/view";
+import type { JSONSchema7 } from "json-schema";
+import { getJSONSchema, updateSchema } from "./state";
+import {
+  resolveExternalRefs,
+  type ResolveExternalRefsOptions,
+} from "./utils/resolveExternalRefs";
+import { debug } from "./utils/debug";
+
+/**
+ * resolves external `$ref`s of the schema in `stateExtensions()`,
+ * and replaces it with the linked schema once all documents are loaded.
+ * Requires `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function refLoader(options: ResolveExternalRefsOptions) {
+  return ViewPlugin.define((view) => {
+    let current: JSONSchema7 | undefined;
+    let destroyed = false;
+
+    const link = (schema?: JSONSchema7) => {
+      current = schema;
+      if (!schema) {
+        return;
+      }
+      resolveExternalRefs(schema, options)
+        .then((linked) => {
+          // the schema may have been swapped while documents were loading
+          if (destroyed || linked === schema || current !== schema) {
+            return;
+          }
+          updateSchema(view, linked);
+        })
+        .catch((err) => debug.log(err));
+    };
+
+    link(getJSONSchema(view.state));
+
+    return {
+      update(update) {
+        const schema = getJSONSchema(update.state);
+        if (schema !== current) {
+          link(schema);
+        }
+      },
+      destroy() {
+        destroyed = true;
+      },
+    };
+  });
+}
@@ -0,0 +1,176 @@
+import { EditorState, Facet, type Transaction } from "@codemirror/state";
+import { syntaxTree } from "@codemirror/language";
+import type { JSONSchema7 } from "json-schema";
+import { schemaStateField, selectSchemaEffect } from "./state";
+import { TOKENS } from "./constants";
+import { getWord, isValueNode } from "./utils/node";
+
+export type SchemaRegistryEntry = {
+  /**
+   * The uri that a document's top-level `"$schema"` value is matched against
+   */
+  uri?: string;
+  /**
+   * File name patterns matched against the `documentUri`, i.e. `package.json`
+   * or `*.config.json`. `*` matches within a path segment, `**` across them
+   */
+  fileMatch?: string[];
+  schema: JSONSchema7;
+};
+
+export type SchemaRegistryOptions = {
+  /**
+   * The schema to use when no entry matches.
+   * Without it, only the syntax is linted
+   */
+  fallback?: JSONSchema7;
+};
+
+/**
+ * identifies the document for the `fileMatch` patterns of `schemaRegistry()`,
+ * i.e. `documentUri.of("file:///project/package.json")`
+ * @group Codemirror Extensions
+ */
+export const documentUri = Facet.define<string, string | undefined>({
+  combine: (values) => values[0],
+});
+
+const normalizeUri = (uri: string) => uri.trim().replace(/#$/, "");
+
+const globToRegExp = (pattern: string) => {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*\/|\*\*|\*|\?/g, (match) => {
+      if (match === "**/") return "(?:.*/)?";
+      if (match === "**") return ".*";
+      if (match === "*") return "[^/]*";
+      return "[^/]";
+    });
+  // patterns without a directory match the file name anywhere
+  return new RegExp(`(?:^|/)${source}$`);
+};
+
+// the `"$schema"` properties of the root object
+const getSchemaProperties = (state: EditorState) =>
+  (
+    syntaxTree(state)
+      .topNode.getChild(TOKENS.OBJECT)
+      ?.getChildren(TOKENS.PROPERTY) ?? []
+  ).filter((property) => {
+    const name = property.getChild(TOKENS.PROPERTY_NAME);
+    return name && getWord(state.doc, name) === "$schema";
+  });
+
+/**
+ * return the top-level `"$schema"` value of a json or json5 document.
+ * only the properties of the root object are read, so it's cheap to call
+ * on every change
+ * @group Utilities
+ */
+export function getDocumentSchemaUri(state: EditorState): string | undefined {
+  // parsers keep the last of duplicate keys
+  const property = getSchemaProperties(state).pop();
+  let value = property?.getChild(TOKENS.PROPERTY_NAME)?.nextSibling;
+  while (value && !isValueNode(value)) {
+    value = value.nextSibling;
+  }
+  return (value && getWord(state.doc, value)) || undefined;
+}
+
+// whether a transaction may change what the document's schema is selected
+// by. edits elsewhere return early, without reading the new state's tree
+const mayChangeReference = (tr: Transaction) => {
+  // `documentUri` only changes with the configuration
+  if (tr.reconfigured) {
+    return true;
+  }
+  if (!tr.docChanged) {
+    return false;
+  }
+  const properties = getSchemaProperties(tr.startState);
+  // without a `"$schema"`, any edit may add one
+  return (
+    !properties.length ||
+    properties.some(({ from, to }) => tr.changes.touchesRange(from, to))
+  );
+};
+
+// what a document's schema is selected by
+type SchemaReference = { schemaUri?: string; uri?: string };
+
+const getSchemaReference = (state: EditorState): SchemaReference => ({
+  schemaUri: getDocumentSchemaUri(state),
+  uri: state.facet(documentUri),
+});
+
+const selectEntry = (
+  { schemaUri, uri }: SchemaReference,
+  entries: SchemaRegistryEntry[]
+): JSONSchema7 | undefined => {
+  if (schemaUri) {
+    const entry = entries.find(
+      (e) => e.uri && normalizeUri(e.uri) === normalizeUri(schemaUri)
+    );
+    if (entry) {
+      return entry.schema;
+    }
+  }
+  if (uri) {
+    const entry = entries.find((e) =>
+      e.fileMatch?.some((pattern) => globToRegExp(pattern).test(uri))
+    );
+    if (entry) {
+      return entry.schema;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * select the registry entry for a document, first by its `"$schema"`
+ * value, and then by the `fileMatch` patterns for its `documentUri`
+ * @group Utilities
+ */
+export function selectSchema(
+  state: EditorState,
+  entries: SchemaRegistryEntry[]
+): JSONSchema7 | undefined {
+  return selectEntry(getSchemaReference(state), entries);
+}
+
+/**
+ * register many schemas, and pick one automatically from the document's
+ * `"$schema"` value or `documentUri`. The schema is switched as the
+ * `"$schema"` value is edited. Use instead of `stateExtensions()`
+ * @group Codemirror Extensions
+ */
+export function schemaRegistry(
+  entries: SchemaRegistryEntry[],
+  options: SchemaRegistryOptions = {}
+) {
+  const select = (reference: SchemaReference) =>
+    selectEntry(reference, entries) ?? options.fallback;
+
+  return [
+    schemaStateField.init((state) => select(getSchemaReference(state))),
+    // switch the schema in the same transaction as the edit, so that
+    // the linter, hover and completion never see a stale schema
+    EditorState.transactionExtender.of((tr) => {
+      if (!mayChangeReference(tr)) {
+        return null;
+      }
+      const before = getSchemaReference(tr.startState);
+      const after = getSchemaReference(tr.state);
+      if (before.schemaUri === after.schemaUri && before.uri === after.uri) {
+        return null;
+      }
+      // keep the schema, i.e. as linked by `refLoader()`, while the
+      // document still selects the same entry
+      const schema = select(after);
+      if (schema === select(before)) {
+        return null;
+      }
+      return { effects: selectSchemaEffect.of({ schema }) };
+    }),
+  ];
+}
@@ -0,0 +1,87 @@
+import {
+  type EditorState,
+  StateEffect,
+  StateField,
+  Transaction,
+} from "@codemirror/state";
+import type { EditorView, ViewUpdate } from "@codemirror/view";
+import type { JSONSchema7 } from "json-schema";
+
+/**
+ * the effect that replaces the schema in the shared schema state field
+ */
+export const schemaEffect = StateEffect.define<JSONSchema7 | undefined>();
+
+/**
+ * the effect of a schema that's selected along with a change, i.e. by
+ * `schemaRegistry()`. the schema is wrapped, as effects are mapped through
+ * the changes, which drops effects of `undefined`
+ */
+export const selectSchemaEffect = StateEffect.define<{
+  schema: JSONSchema7 | undefined;
+}>();
+
+/**
+ * holds the schema used by the linter, hover and completion extensions
+ * @group Codemirror Extensions
+ */
+export const schemaStateField = StateField.define<JSONSchema7 | undefined>({
+  create() {
+    return undefined;
+  },
+  update(schema, tr) {
+    for (const e of tr.effects) {
+      if (e.is(schemaEffect)) {
+        return e.value;
+      }
+      if (e.is(selectSchemaEffect)) {
+        return e.value.schema;
+      }
+    }
+    return schema;
+  },
+});
+
+/**
+ * swap the schema for a given view at runtime.
+ * this doesn't touch the selection, and isn't added to the undo history
+ * @group Utilities
+ */
+export const updateSchema = (view: EditorView, schema?: JSONSchema7) => {
+  view.dispatch({
+    effects: schemaEffect.of(schema),
+    annotations: Transaction.addToHistory.of(false),
+  });
+};
+
+/**
+ * retrieve the schema from the shared state field.
+ * returns `fallback` when the state field isn't installed or is empty
+ * @group Utilities
+ */
+export const getJSONSchema = (
+  state: EditorState,
+  fallback?: JSONSchema7
+): JSONSchema7 | undefined => {
+  return state.field(schemaStateField, false) ?? fallback;
+};
+
+/**
+ * the state extensions needed for `updateSchema()`, with an initial schema
+ * @group Codemirror Extensions
+ */
+export const stateExtensions = (schema?: JSONSchema7) => [
+  schemaStateField.init(() => schema),
+];
+
+/**
+ * pass to the `needsRefresh` linter option, so that the
+ * schema is re-linted as soon as `updateSchema()` is called
+ * @group Utilities
+ */
+export const handleRefresh = (update: ViewUpdate) => {
+  return (
+    update.startState.field(schemaStateField, false) !==
+    update.state.field(schemaStateField, false)
+  );
+};
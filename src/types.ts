@@ -4,11 +4,17 @@ export type RequiredPick<T, F extends keyof T> = Omit<T, F> &
 export type JSONPartialPointerData = {
   keyFrom: number;
   keyTo: number;
+  /**
+   * every occurrence of a duplicate key in the same object, in document order.
+   * the pointer's own range is the last one, whose value parsers keep
+   */
+  occurrences?: JSONPartialPointerData[];
 };
 
-export type JSONPointerData = {
-  keyFrom: number;
-  keyTo: number;
+/**
+ * for array items and the root value, the key range is the value range
+ */
+export type JSONPointerData = JSONPartialPointerData & {
   valueFrom: number;
   valueTo: number;
 };
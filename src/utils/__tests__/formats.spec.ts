@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+
+import { defaultFormats, withFormats } from "../formats";
+import { getDraft } from "../schemaDraft";
+
+describe("defaultFormats", () => {
+  const cases: [format: string, valid: string[], invalid: string[]][] = [
+    [
+      "date-time",
+      ["2023-07-01T12:30:00Z", "2023-07-01T12:30:00.5+02:00"],
+      ["2023-07-01", "2023-13-01T12:30:00Z"],
+    ],
+    ["date", ["2023-07-01"], ["2023-7-1", "2023-07-32"]],
+    ["email", ["me@example.com"], ["me@", "me example.com"]],
+    [
+      "uuid",
+      ["123e4567-e89b-12d3-a456-426614174000"],
+      ["123e4567-e89b-12d3-a456", "not-a-uuid"],
+    ],
+    ["ipv4", ["192.168.0.1"], ["256.1.1.1", "1.2.3"]],
+    ["uri", ["https://example.com/a?b#c", "urn:isbn:123"], ["example.com"]],
+    ["regex", ["^a+$"], ["(unclosed"]],
+  ];
+  it.each(cases)("should validate %s", (format, valid, invalid) => {
+    valid.forEach((value) => expect(defaultFormats[format](value)).toBe(true));
+    invalid.forEach((value) =>
+      expect(defaultFormats[format](value)).toBe(false)
+    );
+  });
+});
+
+describe("withFormats", () => {
+  const schema = { type: "string", format: "semver" };
+  const formats = { semver: (value: string) => /^\d+\.\d+\.\d+$/.test(value) };
+
+  it("should validate with the registered formats", () => {
+    const draft = withFormats(getDraft(schema), formats);
+    expect(draft.validate("1.2.3")).toEqual([]);
+    expect(draft.validate("1.2")).toEqual([
+      {
+        type: "error",
+        name: "FormatError",
+        code: "format-error",
+        message: "Expected format `semver` but received `1.2`",
+        data: { format: "semver", value: "1.2", pointer: "#" },
+      },
+    ]);
+  });
+  it("should leave the shared draft untouched", () => {
+    const draft = getDraft(schema);
+    expect(withFormats(draft, formats)).toBe(withFormats(draft, formats));
+    expect(withFormats(draft, formats)).not.toBe(draft);
+    expect(draft.validate("1.2")).toEqual([]);
+  });
+});
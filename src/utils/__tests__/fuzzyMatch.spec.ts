@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+
+import { fuzzyMatch } from "../fuzzyMatch";
+
+describe("fuzzyMatch", () => {
+  it("should match everything with an empty pattern", () => {
+    expect(fuzzyMatch("", "name")).toEqual({ score: 0, ranges: [] });
+  });
+  it("should match prefixes case-insensitively", () => {
+    expect(fuzzyMatch("devdep", "devDependencies")?.ranges).toEqual([0, 6]);
+    expect(fuzzyMatch("NA", "name")?.ranges).toEqual([0, 2]);
+  });
+  it("should match camelCase and kebab-case segments", () => {
+    expect(fuzzyMatch("Deps", "devDependencies")?.ranges).toEqual([
+      3, 6, 14, 15,
+    ]);
+    expect(fuzzyMatch("dd", "devDependencies")?.ranges).toEqual([0, 1, 3, 4]);
+    expect(fuzzyMatch("pr", "peer-requirements")?.ranges).toEqual([0, 1, 5, 6]);
+    expect(fuzzyMatch("schema", "JSONSchema")?.ranges).toEqual([4, 10]);
+  });
+  it("should not match characters out of order", () => {
+    expect(fuzzyMatch("sed", "devDependencies")).toBeNull();
+    expect(fuzzyMatch("names", "name")).toBeNull();
+  });
+  it("should start at the start of the word or of a segment", () => {
+    expect(fuzzyMatch("f", "oneOfEg")).toBeNull();
+    expect(fuzzyMatch("o", "oneOfEg")?.ranges).toEqual([0, 1]);
+    expect(fuzzyMatch("eg", "oneOfEg")?.ranges).toEqual([5, 7]);
+  });
+  it("should score prefixes and segments higher", () => {
+    const score = (pattern: string, word: string) =>
+      fuzzyMatch(pattern, word)?.score ?? -Infinity;
+    expect(score("dep", "dependencies")).toBeGreaterThan(
+      score("dep", "devDependencies")
+    );
+    expect(score("dep", "devDependencies")).toBeGreaterThan(
+      score("dep", "undeployed")
+    );
+  });
+});
@@ -79,6 +79,54 @@ describe("getJsonPointers", () => {
   });
 });
 
+describe("getJsonPointers for array items and the root", () => {
+  it("should include array items and the root value", () => {
+    const state = EditorState.create({
+      doc: '{"list": [1, {"a": true}], "bar": 123}',
+      extensions: [json()],
+    });
+    const pointers = getJsonPointers(state);
+    expect(pointers.get("")).toEqual({
+      keyFrom: 0,
+      keyTo: 38,
+      valueFrom: 0,
+      valueTo: 38,
+    });
+    expect(pointers.get("/list/0")).toEqual({
+      keyFrom: 10,
+      keyTo: 11,
+      valueFrom: 10,
+      valueTo: 11,
+    });
+    expect(pointers.get("/list/1")).toEqual({
+      keyFrom: 13,
+      keyTo: 24,
+      valueFrom: 13,
+      valueTo: 24,
+    });
+    expect(pointers.get("/list/1/a")).toEqual({
+      keyFrom: 14,
+      keyTo: 17,
+      valueFrom: 19,
+      valueTo: 23,
+    });
+  });
+  it("should include array items and the root value for json5", () => {
+    const state = EditorState.create({
+      doc: "[1, { a: [true] }]",
+      extensions: [json5()],
+    });
+    const pointers = getJsonPointers(state, "json5");
+    expect(Array.from(pointers.keys())).toEqual([
+      "",
+      "/0",
+      "/1",
+      "/1/a",
+      "/1/a/0",
+    ]);
+  });
+});
+
 describe("getJsonPointers for json5", () => {
   it("should return a map of all pointers for a json5 document", () => {
     const state = EditorState.create({
@@ -101,3 +149,46 @@ describe("getJsonPointers for json5", () => {
     });
   });
 });
+
+describe("getJsonPointers with duplicate keys", () => {
+  it("should keep the last occurrence and list every occurrence", () => {
+    const state = EditorState.create({
+      doc: '{"a": 1, "b": 2, "a": 3}',
+      extensions: [json()],
+    });
+    expect(getJsonPointers(state).get("/a")).toEqual({
+      keyFrom: 17,
+      keyTo: 20,
+      valueFrom: 22,
+      valueTo: 23,
+      occurrences: [
+        { keyFrom: 1, keyTo: 4, valueFrom: 6, valueTo: 7 },
+        { keyFrom: 17, keyTo: 20, valueFrom: 22, valueTo: 23 },
+      ],
+    });
+  });
+  it("should list the occurrences of json5 keys", () => {
+    const state = EditorState.create({
+      doc: "{a: 1, 'a': 2, \"a\": 3}",
+      extensions: [json5()],
+    });
+    const pointer = getJsonPointers(state, "json5").get("/a");
+    expect(pointer?.occurrences?.map(({ keyFrom }) => keyFrom)).toEqual([
+      1, 7, 15,
+    ]);
+  });
+  it("should not list the keys of a discarded duplicate object", () => {
+    const state = EditorState.create({
+      doc: '{"a": {"b": 1}, "a": {"b": 2}}',
+      extensions: [json()],
+    });
+    const pointers = getJsonPointers(state);
+    expect(pointers.get("/a")?.occurrences).toHaveLength(2);
+    expect(pointers.get("/a/b")).toEqual({
+      keyFrom: 22,
+      keyTo: 25,
+      valueFrom: 27,
+      valueTo: 28,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+
+import { defaultMessages, translate } from "../messages";
+import { joinList } from "../formatting";
+
+describe("translate", () => {
+  it("should render the default english templates", () => {
+    expect(
+      translate("required-property-error", { key: "name", pointer: "#" })
+    ).toEqual("The required property `name` is missing at `#`");
+  });
+  it("should prefer the given messages", () => {
+    expect(
+      translate(
+        "required-property-error",
+        { key: "name", pointer: "#" },
+        {
+          messages: {
+            "required-property-error":
+              "Die Eigenschaft `{{key}}` fehlt in `{{pointer}}`",
+          },
+        }
+      )
+    ).toEqual("Die Eigenschaft `name` fehlt in `#`");
+  });
+  it("should call function templates with the data and locale", () => {
+    expect(
+      translate(
+        "enum-error",
+        { values: ["a", "b"] },
+        {
+          locale: "ja",
+          messages: {
+            "enum-error": ({ values }, locale) =>
+              `${joinList(values, locale)}のいずれかが必要です`,
+          },
+        }
+      )
+    ).toEqual("`a`または`b`のいずれかが必要です");
+  });
+  it("should render objects and arrays as json", () => {
+    expect(
+      translate("enum-error", { value: 1, pointer: "#", values: [2, 3] })
+    ).toEqual("Expected given value `1` in `#` to be one of `[2,3]`");
+  });
+  it("should return undefined for unknown keys", () => {
+    expect(translate("unknown-error")).toBeUndefined();
+    expect(defaultMessages["unknown-error"]).toBeUndefined();
+  });
+});
+
+describe("joinList", () => {
+  it("should join lists for the locale", () => {
+    expect(joinList(["a"], "en")).toEqual("`a`");
+    expect(joinList(["a", "b"], "en")).toEqual("`a` or `b`");
+    expect(joinList(["a", "b", "c"], "en")).toEqual("`a`, `b`, or `c`");
+    expect(joinList(["a", "b", "c"], "de")).toEqual("`a`, `b` oder `c`");
+    expect(joinList(["a", "b"], "en", "conjunction")).toEqual("`a` and `b`");
+  });
+  it("should join lists in english by default", () => {
+    expect(joinList(["a", "b"])).toEqual("`a` or `b`");
+  });
+});
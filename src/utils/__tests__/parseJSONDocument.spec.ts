@@ -8,6 +8,7 @@ describe("parseJSONDocument", () => {
     const doc = parseJSONDocument(`{"object": { "foo": true }, "bar": 123}`);
     expect(doc.data).toEqual({ object: { foo: true }, bar: 123 });
     expect(Array.from(doc.pointers.keys())).toEqual([
+      "",
       "/object",
       "/object/foo",
       "/bar",
@@ -15,11 +16,19 @@ describe("parseJSONDocument", () => {
   });
 });
 
+describe("parseJSONDocument with invalid json", () => {
+  it("should return the data from the syntax tree", () => {
+    const doc = parseJSONDocument(`{"object": { "foo": true }, "bar": }`);
+    expect(doc.data).toEqual({ object: { foo: true } });
+  });
+});
+
 describe("parseJSON5Document", () => {
   it("should return a map of all pointers for a json5 document", () => {
     const doc = parseJSON5Document(`{'obj"ect': { foo: true }, "bar": 123}`);
     expect(doc.data).toEqual({ ['obj"ect']: { foo: true }, bar: 123 });
     expect(Array.from(doc.pointers.keys())).toEqual([
+      "",
       '/obj"ect',
       '/obj"ect/foo',
       "/bar",
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { json } from "@codemirror/lang-json";
+import { json5 } from "codemirror-json5";
+import { EditorState } from "@codemirror/state";
+
+import { parseJSONTree } from "../parseJSONTree";
+
+const parseJSON = (doc: string) =>
+  parseJSONTree(EditorState.create({ doc, extensions: [json()] }));
+
+const parseJSON5 = (doc: string) =>
+  parseJSONTree(EditorState.create({ doc, extensions: [json5()] }));
+
+describe("parseJSONTree", () => {
+  it("should return the same value as JSON.parse for valid json", () => {
+    const doc = JSON.stringify({
+      string: 'a "quoted" \\ string\nwith éscapes',
+      number: -1.5e2,
+      booleans: [true, false],
+      null: null,
+      nested: { array: [{}, [], 0] },
+    });
+    expect(parseJSON(doc)).toEqual(JSON.parse(doc));
+  });
+  it("should skip invalid values and properties", () => {
+    expect(
+      parseJSON('{"a": 1, "b": , "c": {"d": }, "e": [1,,2], "f": "x" "g": 2}')
+    ).toEqual({ a: 1, c: {}, e: [1, 2], f: "x", g: 2 });
+  });
+  it("should return the values before the end of an incomplete document", () => {
+    expect(parseJSON('{"a": 1, "b": [1, 2')).toEqual({ a: 1, b: [1, 2] });
+  });
+  it("should return undefined for an empty document", () => {
+    expect(parseJSON("")).toBeUndefined();
+  });
+});
+
+describe("parseJSONTree for json5", () => {
+  it("should support json5 syntax", () => {
+    expect(
+      parseJSON5(
+        "{a: 1, 'b': [0x1F, +Infinity, -.5,], c: 'x\\'y', // c\n d: 5.,}"
+      )
+    ).toEqual({ a: 1, b: [31, Infinity, -0.5], c: "x'y", d: 5 });
+  });
+  it("should skip invalid values and properties", () => {
+    expect(parseJSON5("{a: 1, b: , c: {d: }}")).toEqual({ a: 1, c: {} });
+  });
+  it("should keep invalid array items as undefined", () => {
+    expect(parseJSON5("[1, .e1, 'x']")).toEqual([1, undefined, "x"]);
+  });
+});
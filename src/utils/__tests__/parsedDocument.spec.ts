@@ -0,0 +1,36 @@
+import { describe, it, expect, vitest } from "vitest";
+import { json } from "@codemirror/lang-json";
+import { EditorState } from "@codemirror/state";
+
+import { getParsedDocument } from "../parsedDocument";
+import { parseJSONDocumentState } from "../parseJSONDocument";
+
+describe("getParsedDocument", () => {
+  it("should parse each version of a document once", () => {
+    const parser = vitest.fn(parseJSONDocumentState);
+    const state = EditorState.create({
+      doc: '{"foo": 123}',
+      extensions: [json()],
+    });
+    const result = getParsedDocument(state, parser);
+    expect(result.data).toEqual({ foo: 123 });
+    expect(getParsedDocument(state, parser)).toBe(result);
+    // unrelated transactions keep the same document
+    const selected = state.update({ selection: { anchor: 2 } }).state;
+    expect(getParsedDocument(selected, parser)).toBe(result);
+    expect(parser).toHaveBeenCalledTimes(1);
+  });
+  it("should parse again after the document has changed", () => {
+    const parser = vitest.fn(parseJSONDocumentState);
+    const state = EditorState.create({
+      doc: '{"foo": 123}',
+      extensions: [json()],
+    });
+    getParsedDocument(state, parser);
+    const changed = state.update({
+      changes: { from: 8, to: 11, insert: "456" },
+    }).state;
+    expect(getParsedDocument(changed, parser).data).toEqual({ foo: 456 });
+    expect(parser).toHaveBeenCalledTimes(2);
+  });
+});
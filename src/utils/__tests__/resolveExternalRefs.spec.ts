@@ -0,0 +1,106 @@
+import { describe, it, expect, vitest } from "vitest";
+import { Draft07 } from "json-schema-library";
+
+import {
+  hasExternalRefs,
+  resolveExternalRefs,
+  resolveUri,
+} from "../resolveExternalRefs";
+import {
+  externalRefSchema,
+  remoteSchemas,
+} from "../../__tests__/__fixtures__/remoteSchemas";
+import { testSchema2 } from "../../__tests__/__fixtures__/schemas";
+
+const loadSchema = (uri: string) => remoteSchemas[uri];
+
+describe("resolveUri", () => {
+  it("should resolve relative to an absolute base", () => {
+    expect(
+      resolveUri("common.json", "https://example.com/schemas/root.json")
+    ).toEqual("https://example.com/schemas/common.json");
+  });
+  it("should resolve relative to a relative base", () => {
+    expect(resolveUri("common.json", "schemas/root.json")).toEqual(
+      "schemas/common.json"
+    );
+    expect(resolveUri("common.json")).toEqual("common.json");
+  });
+});
+
+describe("resolveExternalRefs", () => {
+  it("should return schemas without external refs as they are", async () => {
+    expect(hasExternalRefs(testSchema2)).toBe(false);
+    expect(await resolveExternalRefs(testSchema2, { loadSchema })).toBe(
+      testSchema2
+    );
+  });
+  it("should inline external documents and rewrite refs", async () => {
+    const linked = await resolveExternalRefs(externalRefSchema, {
+      loadSchema,
+    });
+    expect(hasExternalRefs(linked)).toBe(false);
+    expect(linked.properties?.id).toEqual({
+      $ref: "#/definitions/common.json/definitions/id",
+    });
+    expect(linked.properties?.tree).toEqual({
+      $ref: "#/definitions/tree.json",
+    });
+    expect(Object.keys(linked.definitions!)).toEqual([
+      "common.json",
+      "tree.json",
+    ]);
+    // the original schema is not modified
+    expect(externalRefSchema.properties?.id).toEqual({
+      $ref: "common.json#/definitions/id",
+    });
+  });
+  it("should validate with the linked schema", async () => {
+    const linked = await resolveExternalRefs(externalRefSchema, {
+      loadSchema,
+    });
+    const draft = new Draft07(linked);
+    expect(draft.validate({ id: "a", owner: { id: "b" } })).toEqual([]);
+    expect(draft.validate({ id: 1 })).toHaveLength(1);
+    expect(draft.validate({ owner: { id: 2 } })).toHaveLength(1);
+    expect(
+      draft.validate({ tree: { children: [{ children: [1] }] } })
+    ).toHaveLength(1);
+  });
+  it("should support async loaders and cache documents per loader", async () => {
+    const asyncLoader = vitest.fn(async (uri: string) => remoteSchemas[uri]);
+    await resolveExternalRefs(externalRefSchema, { loadSchema: asyncLoader });
+    await resolveExternalRefs(
+      { properties: { id: { $ref: "common.json#/definitions/id" } } },
+      { loadSchema: asyncLoader }
+    );
+    expect(asyncLoader.mock.calls).toEqual([["common.json"], ["tree.json"]]);
+  });
+  it("should leave refs to documents that fail to load", async () => {
+    const linked = await resolveExternalRefs(externalRefSchema, {
+      loadSchema: (uri) => {
+        if (uri === "tree.json") {
+          throw new Error("not found");
+        }
+        return remoteSchemas[uri];
+      },
+    });
+    expect(linked.properties?.tree).toEqual({ $ref: "tree.json" });
+    expect(linked.properties?.id).toEqual({
+      $ref: "#/definitions/common.json/definitions/id",
+    });
+  });
+  it("should resolve refs relative to the baseUri", async () => {
+    const loader = vitest.fn((uri: string) =>
+      loadSchema(uri.replace("https://example.com/", ""))
+    );
+    const linked = await resolveExternalRefs(
+      { properties: { id: { $ref: "common.json#/definitions/id" } } },
+      { loadSchema: loader, baseUri: "https://example.com/root.json" }
+    );
+    expect(loader).toHaveBeenCalledWith("https://example.com/common.json");
+    expect(linked.properties?.id).toEqual({
+      $ref: "#/definitions/https:~1~1example.com~1common.json/definitions/id",
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import type { JSONSchema7 } from "json-schema";
+import { Draft04, Draft06, Draft07 } from "json-schema-library";
+
+import { createDraft, getDraft, getSchemaDraft } from "../schemaDraft";
+
+describe("getSchemaDraft", () => {
+  it("should detect the draft from the $schema uri", () => {
+    expect(
+      getSchemaDraft({ $schema: "http://json-schema.org/draft-04/schema#" })
+    ).toEqual("draft-04");
+    expect(
+      getSchemaDraft({ $schema: "http://json-schema.org/draft-06/schema#" })
+    ).toEqual("draft-06");
+    expect(
+      getSchemaDraft({ $schema: "http://json-schema.org/draft-07/schema" })
+    ).toEqual("draft-07");
+    expect(
+      getSchemaDraft({
+        $schema: "https://json-schema.org/draft/2019-09/schema",
+      })
+    ).toEqual("2019-09");
+    expect(
+      getSchemaDraft({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+      })
+    ).toEqual("2020-12");
+  });
+  it("should return undefined for missing or unknown $schema", () => {
+    expect(getSchemaDraft({})).toBeUndefined();
+    expect(
+      getSchemaDraft({ $schema: "https://example.com/schema" })
+    ).toBeUndefined();
+  });
+});
+
+describe("createDraft", () => {
+  it("should create the detected draft", () => {
+    expect(
+      createDraft({ $schema: "http://json-schema.org/draft-04/schema#" })
+    ).toBeInstanceOf(Draft04);
+    expect(
+      createDraft({ $schema: "http://json-schema.org/draft-06/schema#" })
+    ).toBeInstanceOf(Draft06);
+  });
+  it("should default to draft-07", () => {
+    expect(createDraft({})).toBeInstanceOf(Draft07);
+  });
+  it("should prefer the draft override", () => {
+    expect(
+      createDraft(
+        { $schema: "http://json-schema.org/draft-07/schema" },
+        "draft-04"
+      )
+    ).toBeInstanceOf(Draft04);
+  });
+});
+
+describe("createDraft for 2019-09 and 2020-12", () => {
+  const createDraft2020 = (schema: JSONSchema7) =>
+    createDraft(
+      { $schema: "https://json-schema.org/draft/2020-12/schema", ...schema },
+      "2020-12"
+    );
+  const validate = (schema: JSONSchema7, data: unknown) =>
+    createDraft2020(schema)
+      .validate(data)
+      .map(({ code, data }) => [code, data?.pointer]);
+
+  it("should extend draft-07", () => {
+    expect(createDraft({}, "2019-09")).toBeInstanceOf(Draft07);
+  });
+  it("should resolve $defs references", () => {
+    expect(
+      validate(
+        {
+          properties: { a: { $ref: "#/$defs/number" } },
+          $defs: { number: { type: "number" } },
+        } as JSONSchema7,
+        { a: "1" }
+      )
+    ).toEqual([["type-error", "#/a"]]);
+  });
+  it("should validate dependentRequired and dependentSchemas", () => {
+    expect(
+      validate({ dependentRequired: { a: ["b"] } } as JSONSchema7, { a: 1 })
+    ).toEqual([["missing-dependency-error", "#"]]);
+    expect(
+      validate({ dependentRequired: { a: ["b"] } } as JSONSchema7, { b: 1 })
+    ).toEqual([]);
+    expect(
+      validate(
+        {
+          dependentSchemas: {
+            a: { properties: { b: { type: "string" } } },
+          },
+        } as JSONSchema7,
+        { a: 1, b: 2 }
+      )
+    ).toEqual([["type-error", "#/b"]]);
+  });
+  it("should validate prefixItems, and items after them", () => {
+    const schema = {
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      items: { type: "boolean" },
+    } as JSONSchema7;
+    expect(validate(schema, ["a", 1, true, false])).toEqual([]);
+    expect(validate(schema, [1, "a", 2])).toEqual([
+      ["type-error", "#/0"],
+      ["type-error", "#/1"],
+      ["type-error", "#/2"],
+    ]);
+    expect(
+      validate({ ...schema, items: false } as JSONSchema7, ["a", 1, true])
+    ).toEqual([["additional-items-error", "#"]]);
+  });
+  it("should resolve the schemas of prefixItems", () => {
+    const draft = createDraft2020({
+      properties: {
+        pair: {
+          prefixItems: [{ description: "first" }, { description: "second" }],
+          items: { description: "rest" },
+        },
+      },
+    } as JSONSchema7);
+    expect(
+      ["/pair/0", "/pair/1", "/pair/2"].map(
+        (pointer) => draft.getSchema(pointer, { pair: [] })?.description
+      )
+    ).toEqual(["first", "second", "rest"]);
+  });
+  it("should validate unevaluatedProperties through the applicators", () => {
+    const schema = {
+      properties: { a: {} },
+      allOf: [{ properties: { b: {} } }],
+      anyOf: [{ properties: { c: { type: "number" } } }, { required: ["d"] }],
+      unevaluatedProperties: false,
+    } as JSONSchema7;
+    expect(validate(schema, { a: 1, b: 1, c: 1 })).toEqual([]);
+    // `c` is only evaluated by the branch that fails
+    expect(validate(schema, { a: 1, c: "1", d: 1 })).toEqual([
+      ["no-additional-properties-error", "#"],
+      ["no-additional-properties-error", "#"],
+    ]);
+    expect(
+      validate(
+        {
+          properties: { a: {} },
+          unevaluatedProperties: { type: "number" },
+        } as JSONSchema7,
+        { a: "1", b: "2" }
+      )
+    ).toEqual([["type-error", "#/b"]]);
+  });
+  it("should validate unevaluatedItems", () => {
+    const schema = {
+      prefixItems: [{ type: "string" }],
+      unevaluatedItems: false,
+    } as JSONSchema7;
+    expect(validate(schema, ["a"])).toEqual([]);
+    expect(validate(schema, ["a", 1])).toEqual([["invalid-data-error", "#/1"]]);
+    expect(
+      validate({ ...schema, allOf: [{ items: {} }] } as JSONSchema7, ["a", 1])
+    ).toEqual([]);
+  });
+});
+
+describe("getDraft", () => {
+  it("should compile each schema once per draft", () => {
+    const schema = { type: "object" } as const;
+    expect(getDraft(schema)).toBe(getDraft(schema));
+    expect(getDraft(schema, "draft-04")).not.toBe(getDraft(schema));
+    expect(getDraft({ ...schema })).not.toBe(getDraft(schema));
+  });
+});
@@ -0,0 +1,180 @@
+import gp from "@sagold/json-pointer";
+import type { Draft, JsonError, JsonSchema } from "json-schema-library";
+
+export type SchemaBranch = {
+  keyword: "oneOf" | "anyOf";
+  index: number;
+  /**
+   * the branch's `title`, the name of its `$ref`, or i.e. `oneOf[1]`
+   */
+  label: string;
+};
+
+// compared in order, so that i.e. a matching discriminator `const`
+// outweighs any number of matched properties
+type BranchScore = [
+  typeMatches: number,
+  discriminators: number,
+  matchedProperties: number,
+  errors: number,
+  depth: number
+];
+
+const BRANCH_ERRORS: Record<string, SchemaBranch["keyword"]> = {
+  "one-of-error": "oneOf",
+  "any-of-error": "anyOf",
+};
+
+const compareScores = (a: BranchScore, b: BranchScore) => {
+  const i = a.findIndex((score, i) => score !== b[i]);
+  return i === -1 ? 0 : a[i] - b[i];
+};
+
+const getBranchLabel = (
+  branch: JsonSchema,
+  keyword: string,
+  index: number
+): string => {
+  if (typeof branch?.title === "string") {
+    return branch.title;
+  }
+  if (typeof branch?.$ref === "string") {
+    return branch.$ref.slice(branch.$ref.lastIndexOf("/") + 1);
+  }
+  return `${keyword}[${index}]`;
+};
+
+function scoreBranch(
+  draft: Draft,
+  branch: JsonSchema,
+  value: unknown,
+  pointer: string
+): { score: BranchScore; errors: JsonError[] } {
+  const schema = draft.resolveRef(branch);
+  const errors = draft
+    .validate(value, schema, pointer)
+    .filter((error): error is JsonError => error?.type === "error");
+  const depth = (error: JsonError) =>
+    (error.data?.pointer ?? "").split("/").length;
+  let discriminators = 0;
+  let matchedProperties = 0;
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const properties: Record<string, JsonSchema> = schema?.properties ?? {};
+    Object.entries(value).forEach(([key, propertyValue]) => {
+      if (!(key in properties)) {
+        return;
+      }
+      matchedProperties += 1;
+      const property = draft.resolveRef(properties[key]);
+      const expected =
+        property?.const ??
+        (property?.enum?.length === 1 ? property.enum[0] : undefined);
+      if (expected !== undefined) {
+        discriminators +=
+          JSON.stringify(expected) === JSON.stringify(propertyValue) ? 1 : -1;
+      }
+    });
+  }
+  return {
+    score: [
+      errors.some((e) => e.code === "type-error" && e.data?.pointer === pointer)
+        ? 0
+        : 1,
+      discriminators,
+      matchedProperties,
+      -errors.length,
+      Math.max(0, ...errors.map(depth)),
+    ],
+    errors,
+  };
+}
+
+function scoreBranches(
+  draft: Draft,
+  keyword: SchemaBranch["keyword"],
+  branches: JsonSchema[],
+  value: unknown,
+  pointer: string
+) {
+  return branches.map((branch: JsonSchema, index: number) => ({
+    ...scoreBranch(draft, branch, value, pointer),
+    branch: { keyword, index, label: getBranchLabel(branch, keyword, index) },
+  }));
+}
+
+/**
+ * return the `oneOf` or `anyOf` branch that a value matches best, by the same
+ * score as `expandBranchErrors()`, or `undefined` when no branch matches the
+ * value's type or no branch scores higher than the others
+ * @group Utilities
+ */
+export function getBestBranch(
+  draft: Draft,
+  keyword: SchemaBranch["keyword"],
+  branches: JsonSchema[],
+  value: unknown
+): SchemaBranch | undefined {
+  if (!branches.length) {
+    return undefined;
+  }
+  const scored = scoreBranches(draft, keyword, branches, value, "#");
+  const best = scored.reduce((a, b) =>
+    compareScores(b.score, a.score) > 0 ? b : a
+  );
+  if (
+    !best.score[0] ||
+    scored.every(({ score }) => compareScores(score, best.score) === 0)
+  ) {
+    return undefined;
+  }
+  return best.branch;
+}
+
+/**
+ * replace the `oneOf` and `anyOf` errors with the errors of the branch that
+ * matches the value best, by a discriminator `const`, the matched properties,
+ * and the number and depth of its errors. each error of a branch has its
+ * `branch` in its data. errors are kept when no branch matches the value's type
+ * @group Utilities
+ */
+export function expandBranchErrors(
+  draft: Draft,
+  errors: JsonError[],
+  data: unknown
+): JsonError[] {
+  return errors.flatMap((error) => {
+    const keyword = BRANCH_ERRORS[error.code];
+    const pointer: string = error.data?.pointer ?? "#";
+    let branches = error.data?.[keyword];
+    if (typeof branches === "string") {
+      // `resolveAnyOf()` reports the branches as json
+      branches = JSON.parse(branches);
+    }
+    if (!keyword || !Array.isArray(branches) || !branches.length) {
+      return [error];
+    }
+    let value: unknown;
+    try {
+      value = gp.get(data, pointer.replace(/^#/, ""));
+    } catch {
+      return [error];
+    }
+    const scored = scoreBranches(draft, keyword, branches, value, pointer);
+    // the first of the best branches
+    const best = scored.reduce((a, b) =>
+      compareScores(b.score, a.score) > 0 ? b : a
+    );
+    if (!best.score[0] || !best.errors.length) {
+      return [error];
+    }
+    return expandBranchErrors(draft, best.errors, data).map((branchError) =>
+      // the innermost branch is the most specific
+      branchError.data?.branch
+        ? branchError
+        : {
+            ...branchError,
+            data: { ...branchError.data, branch: best.branch },
+          }
+    );
+  });
+}
@@ -0,0 +1,64 @@
+import type { Draft, JsonSchema } from "json-schema-library";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * return the subschemas that apply to an object for its current data:
+ * the `then` or `else` of an `if`, and the `dependentSchemas` or
+ * `dependencies` of the properties that are present.
+ * `dependentRequired` and array `dependencies` are returned as `{ required }`.
+ * conditions in `allOf` and in the returned subschemas are evaluated too
+ * @group Utilities
+ */
+export function getConditionalSchemas(
+  draft: Draft,
+  schema: JsonSchema | undefined,
+  value: unknown,
+  // recursive `$ref`s are only evaluated once
+  seen = new Set<JsonSchema>()
+): JsonSchema[] {
+  const resolved = schema && draft.resolveRef(schema);
+  if (!isObject(resolved) || !isObject(value) || seen.has(resolved)) {
+    return [];
+  }
+  seen.add(resolved);
+  const schemas: JsonSchema[] = [];
+  if (resolved.if !== undefined) {
+    const matches =
+      typeof resolved.if === "boolean"
+        ? resolved.if
+        : draft.isValid(value, resolved.if as JsonSchema);
+    const branch = matches ? resolved.then : resolved.else;
+    if (isObject(branch)) {
+      schemas.push(draft.resolveRef(branch));
+    }
+  }
+  [
+    resolved.dependencies,
+    resolved.dependentRequired,
+    resolved.dependentSchemas,
+  ].forEach((dependencies) => {
+    if (!isObject(dependencies)) {
+      return;
+    }
+    Object.entries(dependencies).forEach(([key, dependency]) => {
+      if (!(key in value)) {
+        return;
+      }
+      if (Array.isArray(dependency)) {
+        schemas.push({ required: dependency });
+      } else if (isObject(dependency)) {
+        schemas.push(draft.resolveRef(dependency));
+      }
+    });
+  });
+  const nested = [
+    ...(Array.isArray(resolved.allOf) ? resolved.allOf : []),
+    ...schemas,
+  ];
+  return [
+    ...schemas,
+    ...nested.flatMap((s) => getConditionalSchemas(draft, s, value, seen)),
+  ];
+}
@@ -0,0 +1,49 @@
+import type { JsonSchema } from "json-schema-library";
+import { translate, type MessageOptions } from "./messages";
+
+// whether a schema marks anything as deprecated, per schema
+const deprecationCache = new WeakMap<object, boolean>();
+
+/**
+ * return the deprecation message of a schema with 2019-09's `deprecated: true`,
+ * or vscode's `deprecationMessage`, and `undefined` for other schemas
+ * @group Utilities
+ */
+export function getDeprecationMessage(
+  schema: JsonSchema | undefined,
+  name?: string,
+  options?: MessageOptions
+): string | undefined {
+  if (!schema || typeof schema !== "object") {
+    return undefined;
+  }
+  if (typeof schema.deprecationMessage === "string") {
+    return schema.deprecationMessage;
+  }
+  if (schema.deprecated === true) {
+    return name
+      ? translate("deprecated-property-warning", { property: name }, options)
+      : translate("deprecated", {}, options);
+  }
+  return undefined;
+}
+
+/**
+ * Returns true if any part of the schema is deprecated,
+ * so that documents for other schemas can skip the lookups
+ * @group Utilities
+ */
+export function hasDeprecations(schema: unknown): boolean {
+  if (!schema || typeof schema !== "object") {
+    return false;
+  }
+  let result = deprecationCache.get(schema);
+  if (result === undefined) {
+    result = Array.isArray(schema)
+      ? schema.some(hasDeprecations)
+      : getDeprecationMessage(schema) !== undefined ||
+        Object.values(schema).some(hasDeprecations);
+    deprecationCache.set(schema, result);
+  }
+  return result;
+}
@@ -6,7 +6,15 @@
 //   return e;
 // }
 
-type Attributes = "class" | "text" | "id" | "role" | "aria-label";
+type Attributes =
+  | "class"
+  | "text"
+  | "id"
+  | "role"
+  | "aria-label"
+  | "href"
+  | "target"
+  | "rel";
 
 export function el(
   tagName: string,
@@ -0,0 +1,239 @@
+import {
+  draft07Config,
+  type DraftConfig,
+  type Draft,
+  type JsonError,
+  type JsonSchema,
+  type JsonValidator,
+} from "json-schema-library";
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// `prefixItems` and `items` are the draft-07 `items` array and `additionalItems`
+const asTupleSchema = ({ prefixItems, items, ...schema }: JsonSchema) => ({
+  ...schema,
+  items: prefixItems,
+  additionalItems: items,
+});
+
+// the subschemas of the applicators that apply to the value
+function getApplicators(
+  draft: Draft,
+  schema: JsonSchema,
+  value: unknown
+): JsonSchema[] {
+  const isValid = (s: JsonSchema) => draft.isValid(value, s);
+  const branches = (s: unknown) => (Array.isArray(s) ? s : []);
+  const conditional =
+    schema.if === undefined
+      ? []
+      : isValid(schema.if)
+      ? [schema.if, schema.then]
+      : [schema.else];
+  const dependents = isObject(schema.dependentSchemas)
+    ? Object.entries(schema.dependentSchemas)
+        .filter(([key]) => isObject(value) && key in value)
+        .map(([, s]) => s)
+    : [];
+  return [
+    ...branches(schema.allOf),
+    ...branches(schema.anyOf).filter(isValid),
+    ...branches(schema.oneOf).filter(isValid),
+    ...conditional,
+    ...dependents,
+  ]
+    .filter(isObject)
+    .map((s) => draft.resolveRef(s));
+}
+
+// the keys that the schema and its applicators evaluate
+function getEvaluatedProperties(
+  draft: Draft,
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  seen: Set<JsonSchema>
+): string[] {
+  const keys = Object.keys(value);
+  if (schema.additionalProperties !== undefined) {
+    return keys;
+  }
+  const patterns = Object.keys(schema.patternProperties ?? {}).map(
+    (pattern) => new RegExp(pattern)
+  );
+  const evaluated = keys.filter(
+    (key) =>
+      (isObject(schema.properties) && key in schema.properties) ||
+      patterns.some((pattern) => pattern.test(key))
+  );
+  getApplicators(draft, schema, value).forEach((s) => {
+    if (seen.has(s)) {
+      return;
+    }
+    seen.add(s);
+    evaluated.push(
+      ...(s.unevaluatedProperties !== undefined
+        ? keys
+        : getEvaluatedProperties(draft, s, value, seen))
+    );
+  });
+  return evaluated;
+}
+
+// the indices that the schema and its applicators evaluate
+function getEvaluatedItems(
+  draft: Draft,
+  schema: JsonSchema,
+  value: unknown[],
+  seen: Set<JsonSchema>
+): number[] {
+  const indices = value.map((_item, index) => index);
+  if (
+    (schema.items !== undefined && !Array.isArray(schema.items)) ||
+    schema.additionalItems !== undefined
+  ) {
+    return indices;
+  }
+  const tuple = [schema.prefixItems, schema.items].find(Array.isArray) ?? [];
+  const evaluated = indices.filter(
+    (index) =>
+      index < tuple.length ||
+      (schema.contains !== undefined &&
+        draft.isValid(value[index], schema.contains))
+  );
+  getApplicators(draft, schema, value).forEach((s) => {
+    if (seen.has(s)) {
+      return;
+    }
+    seen.add(s);
+    evaluated.push(
+      ...(s.unevaluatedItems !== undefined
+        ? indices
+        : getEvaluatedItems(draft, s, value, seen))
+    );
+  });
+  return evaluated;
+}
+
+// the keywords that are new to 2019-09 and 2020-12
+const validateKeyword: Record<string, JsonValidator> = {
+  dependentRequired: (draft, schema, value, pointer) => {
+    if (!isObject(schema.dependentRequired) || !isObject(value)) {
+      return undefined;
+    }
+    return Object.entries(schema.dependentRequired)
+      .filter(([key, required]) => key in value && Array.isArray(required))
+      .flatMap(([, required]: [string, string[]]) =>
+        required
+          .filter((key) => !(key in value))
+          .map((missingProperty) =>
+            draft.errors.missingDependencyError({ missingProperty, pointer })
+          )
+      );
+  },
+  dependentSchemas: (draft, schema, value, pointer) => {
+    if (!isObject(schema.dependentSchemas) || !isObject(value)) {
+      return undefined;
+    }
+    return Object.entries(schema.dependentSchemas)
+      .filter(([key]) => key in value)
+      .flatMap(([, dependent]) => draft.validate(value, dependent, pointer));
+  },
+  // `items` only applies to the items after `prefixItems`
+  items: (draft, schema, value, pointer) =>
+    Array.isArray(schema.prefixItems)
+      ? undefined
+      : draft07Config.validateKeyword.items(draft, schema, value, pointer),
+  prefixItems: (draft, schema, value, pointer) =>
+    Array.isArray(schema.prefixItems)
+      ? draft07Config.validateKeyword.items(
+          draft,
+          asTupleSchema(schema),
+          value,
+          pointer
+        )
+      : undefined,
+  unevaluatedProperties: (draft, schema, value, pointer) => {
+    const unevaluated = schema.unevaluatedProperties;
+    if (unevaluated === true || !isObject(value)) {
+      return undefined;
+    }
+    const evaluated = getEvaluatedProperties(
+      draft,
+      schema,
+      value,
+      new Set([schema])
+    );
+    const errors: JsonError[] = [];
+    Object.keys(value)
+      .filter((key) => !evaluated.includes(key))
+      .forEach((property) => {
+        if (unevaluated === false) {
+          errors.push(
+            draft.errors.noAdditionalPropertiesError({
+              property,
+              properties: evaluated,
+              pointer,
+            })
+          );
+        } else {
+          errors.push(
+            ...draft.validate(
+              value[property],
+              unevaluated,
+              `${pointer}/${property}`
+            )
+          );
+        }
+      });
+    return errors;
+  },
+  unevaluatedItems: (draft, schema, value, pointer) => {
+    if (schema.unevaluatedItems === true || !Array.isArray(value)) {
+      return undefined;
+    }
+    const evaluated = getEvaluatedItems(
+      draft,
+      schema,
+      value,
+      new Set([schema])
+    );
+    return value.flatMap((item, index) =>
+      evaluated.includes(index)
+        ? []
+        : draft.validate(item, schema.unevaluatedItems, `${pointer}/${index}`)
+    );
+  },
+};
+
+/**
+ * the draft-07 config with the 2019-09 and 2020-12 keywords
+ * `dependentRequired`, `dependentSchemas`, `prefixItems`,
+ * `unevaluatedProperties` and `unevaluatedItems`
+ */
+export const draft2019Config: Partial<DraftConfig> = {
+  typeKeywords: {
+    ...draft07Config.typeKeywords,
+    array: [
+      ...draft07Config.typeKeywords.array,
+      "prefixItems",
+      "unevaluatedItems",
+    ],
+    object: [
+      ...draft07Config.typeKeywords.object,
+      "dependentRequired",
+      "dependentSchemas",
+      "unevaluatedProperties",
+    ],
+  },
+  validateKeyword: { ...draft07Config.validateKeyword, ...validateKeyword },
+  // resolve the item schemas of `prefixItems` for hover and completion
+  step: (draft, key, schema, data, pointer) =>
+    draft07Config.step(
+      draft,
+      key,
+      Array.isArray(schema?.prefixItems) ? asTupleSchema(schema) : schema,
+      data,
+      pointer
+    ),
+};
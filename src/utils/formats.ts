@@ -0,0 +1,95 @@
+import type { Draft, JsonError, JsonPointer } from "json-schema-library";
+
+/**
+ * validates a string against a `format`, i.e. `"uuid"`.
+ * returns true for valid strings
+ */
+export type FormatValidator = (value: string) => boolean;
+
+const isDateTime =
+  /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])[Tt ]([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?([Zz]|[+-]([01]\d|2[0-3]):[0-5]\d)$/;
+const isDate = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const isEmail = /^[^\s@"]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/i;
+const isUuid =
+  /^(urn:uuid:)?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const isIpv4 =
+  /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+// absolute uris have a scheme, i.e. `https:` or `urn:`
+const isUri = /^[a-z][a-z0-9+.-]*:[^\s]*$/i;
+
+/**
+ * the built-in validators for the standard formats,
+ * which `formats` are merged with
+ * @group Utilities
+ */
+export const defaultFormats: Record<string, FormatValidator> = {
+  "date-time": (value) => isDateTime.test(value) && !isNaN(Date.parse(value)),
+  date: (value) => isDate.test(value) && !isNaN(Date.parse(value)),
+  email: (value) => isEmail.test(value),
+  uuid: (value) => isUuid.test(value),
+  ipv4: (value) => isIpv4.test(value),
+  uri: (value) => isUri.test(value),
+  regex: (value) => {
+    try {
+      new RegExp(value, "u");
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+const formatError = (
+  format: string,
+  value: string,
+  pointer: JsonPointer
+): JsonError => ({
+  type: "error",
+  name: "FormatError",
+  code: "format-error",
+  message: `Expected format \`${format}\` but received \`${value}\``,
+  data: { format, value, pointer },
+});
+
+// drafts with formats are derived per shared draft and per `formats` object
+const formatDrafts = new WeakMap<
+  Draft,
+  WeakMap<Record<string, FormatValidator>, Draft>
+>();
+
+/**
+ * return a json-schema-library `Draft` that validates `format` with the
+ * given validators. the shared draft from `getDraft()` is left untouched,
+ * so that other editors using the same schema aren't affected
+ * @group Utilities
+ */
+export function withFormats(
+  draft: Draft,
+  formats: Record<string, FormatValidator>
+): Draft {
+  let drafts = formatDrafts.get(draft);
+  if (!drafts) {
+    drafts = new WeakMap();
+    formatDrafts.set(draft, drafts);
+  }
+  let result = drafts.get(formats);
+  if (!result) {
+    const validateFormat: Draft["validateFormat"] = {
+      ...draft.validateFormat,
+    };
+    Object.entries(formats).forEach(([format, isValid]) => {
+      validateFormat[format] = (_draft, _schema, value, pointer) => {
+        // formats only apply to strings
+        if (typeof value !== "string" || isValid(value)) {
+          return undefined;
+        }
+        return formatError(format, value, pointer);
+      };
+    });
+    result = Object.create(draft, {
+      validateFormat: { value: validateFormat },
+    }) as Draft;
+    drafts.set(formats, result);
+  }
+  return result;
+}
@@ -1,3 +1,5 @@
+import type { MessageOptions } from "./messages";
+
 // a little english-centric utility
 // to join members of an array with commas and "or"
 export const joinWithOr = (arr: string[], getPath?: (err: any) => any) => {
@@ -12,3 +14,29 @@ export const joinWithOr = (arr: string[], getPath?: (err: any) => any) => {
   }
   return data.join(" ");
 };
+
+/**
+ * join list items for the locale, i.e. "`a`, `b`, or `c`" in english,
+ * or "`a`, `b` oder `c`" in german. Items are quoted as code
+ */
+export const joinList = (
+  items: unknown[],
+  locale = "en",
+  type: "disjunction" | "conjunction" = "disjunction"
+) => {
+  const quoted = items.map((item) => `\`${item}\``);
+  try {
+    return new Intl.ListFormat(locale, { type }).format(quoted);
+  } catch {
+    // older runtimes without Intl.ListFormat, or unknown locales
+    return joinWithOr(items.map(String));
+  }
+};
+
+/**
+ * the locale to join lists of a message in. the `locale` option only applies
+ * with a `messages` catalog, otherwise the lists of the english default
+ * messages are joined in english, whatever the runtime's locale is
+ */
+export const getListLocale = ({ locale, messages }: MessageOptions) =>
+  messages ? locale : undefined;
@@ -0,0 +1,20 @@
+import { ensureSyntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+
+/**
+ * Parse the whole document of a state that has no view to drive the
+ * background parser, which otherwise stops after the first few kilobytes.
+ * Returns a state whose syntax tree spans the document, or `null` if
+ * parsing didn't finish within `timeout` milliseconds
+ * @group Utilities
+ */
+export function getFullyParsedState(
+  state: EditorState,
+  timeout = Infinity
+): EditorState | null {
+  if (!ensureSyntaxTree(state, state.doc.length, timeout)) {
+    return null;
+  }
+  // `syntaxTree` only picks up the finished parse in the next state
+  return state.update({}).state;
+}
@@ -0,0 +1,119 @@
+export type FuzzyMatch = {
+  /**
+   * higher is better: matched characters, runs of consecutive characters
+   * and runs that start a segment of the word score higher
+   */
+  score: number;
+  /**
+   * the matched ranges of the word, as `[from, to, from, to, ...]`,
+   * like `getMatch` of a `CompletionResult` returns them
+   */
+  ranges: number[];
+};
+
+// the score of a matched character, and the bonuses of where it matched
+const MATCH = 1;
+const CONSECUTIVE = 2;
+const WORD_START = 3;
+const SEGMENT_START = 2;
+const GAP = -1;
+
+// the start of a camelCase, PascalCase, kebab-case or snake_case segment
+const isSegmentStart = (word: string, i: number) => {
+  if (i === 0) {
+    return true;
+  }
+  const char = word[i];
+  const previous = word[i - 1];
+  if (/[-_.\s/$@]/.test(previous)) {
+    return true;
+  }
+  if (/[A-Z]/.test(char)) {
+    // `devDependencies`, or `JSONSchema` before the `S`
+    return (
+      /[a-z0-9]/.test(previous) ||
+      (/[A-Z]/.test(previous) && /[a-z]/.test(word[i + 1] ?? ""))
+    );
+  }
+  return /[0-9]/.test(char) && !/[0-9]/.test(previous);
+};
+
+/**
+ * match a pattern against a word, case-insensitively, with the characters of
+ * the pattern in order but not necessarily consecutive, from the start of the
+ * word or of a camelCase or kebab-case segment. i.e. `devdep` and `Deps` both
+ * match `devDependencies`. the best match prefers consecutive characters,
+ * and runs that start a segment. returns `null` if the word doesn't match
+ * @group Utilities
+ */
+export function fuzzyMatch(pattern: string, word: string): FuzzyMatch | null {
+  if (!pattern) {
+    return { score: 0, ranges: [] };
+  }
+  const p = pattern.toLowerCase();
+  const w = word.toLowerCase();
+  if (p.length > w.length) {
+    return null;
+  }
+  // scores[i][j]: the best score of matching `p[0..i]` with `p[i]` at `w[j]`,
+  // and from[i][j] the position of `p[i - 1]` for that score
+  const scores: number[][] = [];
+  const from: number[][] = [];
+  for (let i = 0; i < p.length; i++) {
+    scores.push(new Array(w.length).fill(-Infinity));
+    from.push(new Array(w.length).fill(-1));
+    // the best score of `p[i - 1]` at or before each position
+    let best = -Infinity;
+    let bestAt = -1;
+    for (let j = i; j < w.length; j++) {
+      if (i > 0 && j >= 2 && scores[i - 1][j - 2] > best) {
+        best = scores[i - 1][j - 2];
+        bestAt = j - 2;
+      }
+      if (w[j] !== p[i]) {
+        continue;
+      }
+      const start =
+        j === 0 ? WORD_START : isSegmentStart(word, j) ? SEGMENT_START : GAP;
+      if (i === 0) {
+        // the pattern starts at the start of the word or of a segment
+        if (start !== GAP) {
+          scores[i][j] = MATCH + start;
+        }
+        continue;
+      }
+      const consecutive = scores[i - 1][j - 1] + CONSECUTIVE;
+      const run = best + start;
+      if (consecutive >= run) {
+        scores[i][j] = MATCH + consecutive;
+        from[i][j] = j - 1;
+      } else {
+        scores[i][j] = MATCH + run;
+        from[i][j] = bestAt;
+      }
+    }
+  }
+  const last = scores[p.length - 1];
+  let end = -1;
+  last.forEach((score, j) => {
+    if (score > (last[end] ?? -Infinity)) {
+      end = j;
+    }
+  });
+  if (end === -1) {
+    return null;
+  }
+  const positions: number[] = [];
+  for (let i = p.length - 1, j = end; i >= 0; j = from[i][j], i--) {
+    positions.unshift(j);
+  }
+  const ranges: number[] = [];
+  positions.forEach((pos) => {
+    if (ranges.length && ranges[ranges.length - 1] === pos) {
+      ranges[ranges.length - 1] = pos + 1;
+    } else {
+      ranges.push(pos, pos + 1);
+    }
+  });
+  return { score: last[end], ranges };
+}
@@ -1,12 +1,24 @@
 import { syntaxTree } from "@codemirror/language";
 import { EditorState, Text } from "@codemirror/state";
 import { SyntaxNode, SyntaxNodeRef } from "@lezer/common";
-import { JSONPointersMap, Side } from "../types";
-import { TOKENS } from "../constants";
+import {
+  JSONPartialPointerData,
+  JSONPointerData,
+  JSONPointersMap,
+  Side,
+} from "../types";
+import { COMPLEX_TYPES, PRIMITIVE_TYPES, TOKENS } from "../constants";
 import { findNodeIndexInArrayNode, getWord, isValueNode } from "./node";
 
 export type JSONMode = "json4" | "json5";
 
+// the node types that `isValueNode()` accepts
+const VALUE_TYPES = new Set([
+  ...PRIMITIVE_TYPES,
+  ...COMPLEX_TYPES,
+  TOKENS.INVALID,
+]);
+
 // adapted from https://discuss.codemirror.net/t/json-pointer-at-cursor-seeking-implementation-critique/4793/3
 // this could be useful for other things later!
 export function getJsonPointerAt(docText: Text, node: SyntaxNode): string {
@@ -50,7 +62,10 @@ export const jsonPointerForPosition = (
 };
 
 /**
- * retrieve a Map of all the json pointers in a document
+ * retrieve a Map of all the json pointers in a document,
+ * including the root value `""` and array items.
+ * Array items and the root have no key, so their key range is the value range.
+ * Duplicate keys in an object list each of their `occurrences`
  * @group Utilities
  */
 export const getJsonPointers = (
@@ -59,27 +74,67 @@ export const getJsonPointers = (
 ): JSONPointersMap => {
   const json = syntaxTree(state);
   const pointers: JSONPointersMap = new Map();
+  // where the object of each property starts, to tell duplicate keys apart
+  // from the properties of an earlier duplicate object, which parsers discard
+  const objects = new Map<string, number | undefined>();
+  const setProperty = (
+    pointer: string,
+    node: SyntaxNode,
+    data: JSONPointerData | JSONPartialPointerData
+  ) => {
+    const object = node.parent?.parent?.from;
+    const previous = pointers.get(pointer);
+    if (previous && objects.get(pointer) === object) {
+      const { occurrences, ...first } = previous;
+      data.occurrences = [...(occurrences ?? [first]), { ...data }];
+    }
+    objects.set(pointer, object);
+    pointers.set(pointer, data);
+  };
   json.iterate({
     enter: (type: SyntaxNodeRef) => {
-      if (type.name === "PropertyName") {
-        const pointer = getJsonPointerAt(state.doc, type.node);
+      // only create the nodes of the types that can have a pointer
+      if (VALUE_TYPES.has(type.name)) {
+        const node = type.node;
+        if (
+          (node.parent?.name === TOKENS.ARRAY ||
+            node.parent?.parent === null) &&
+          isValueNode(node)
+        ) {
+          const pointer = getJsonPointerAt(state.doc, node);
+          const { from, to } = node;
+          pointers.set(pointer, {
+            keyFrom: from,
+            keyTo: to,
+            valueFrom: from,
+            valueTo: to,
+          });
+        }
+        return true;
+      }
+      if (type.name === TOKENS.PROPERTY_NAME) {
+        const node = type.node;
+        const pointer = getJsonPointerAt(state.doc, node);
 
-        const { from: keyFrom, to: keyTo } = type.node;
+        const { from: keyFrom, to: keyTo } = node;
         // if there's no value, we can't get the valueFrom/to
-        if (!type.node?.nextSibling?.node) {
-          pointers.set(pointer, { keyFrom, keyTo });
+        if (!node.nextSibling) {
+          setProperty(pointer, node, { keyFrom, keyTo });
           return true;
         }
         const nextNode =
-          mode === "json4"
-            ? type.node?.nextSibling?.node
-            : type.node?.nextSibling?.node?.nextSibling?.node;
+          mode === "json4" ? node.nextSibling : node.nextSibling.nextSibling;
         if (!nextNode) {
-          pointers.set(pointer, { keyFrom, keyTo });
+          setProperty(pointer, node, { keyFrom, keyTo });
           return true;
         }
-        const { from: valueFrom, to: valueTo } = nextNode as SyntaxNode;
-        pointers.set(pointer, { keyFrom, keyTo, valueFrom, valueTo });
+        const { from: valueFrom, to: valueTo } = nextNode;
+        setProperty(pointer, node, {
+          keyFrom,
+          keyTo,
+          valueFrom,
+          valueTo,
+        });
         return true;
       }
     },
@@ -0,0 +1,112 @@
+import gp from "@sagold/json-pointer";
+import type { JsonSchema } from "json-schema-library";
+
+export type KeywordContext = {
+  /**
+   * the value of the keyword in the schema, i.e. `"id"` for `"x-unique-by": "id"`
+   */
+  keywordValue: unknown;
+  /**
+   * the subschema with the keyword
+   */
+  schema: JsonSchema;
+  /**
+   * the json pointer of the value, i.e. `/items/0`
+   */
+  pointer: string;
+  /**
+   * the value at the pointer, if any
+   */
+  value: unknown;
+  /**
+   * the whole document
+   */
+  data: unknown;
+};
+
+export type KeywordError = {
+  message: string;
+  /**
+   * the json pointer of the value to report the error on
+   * @default the pointer of the value with the keyword
+   */
+  pointer?: string;
+};
+
+/**
+ * adds support for a custom schema keyword, i.e. `x-unique-by`
+ */
+export type KeywordPlugin = {
+  keyword: string;
+  /**
+   * validate a value against its subschema with the keyword.
+   * errors are reported with the code `<keyword>-error`, i.e. `x-unique-by-error`
+   */
+  validate?: (context: KeywordContext) => KeywordError[] | undefined;
+  /**
+   * text to add to the hover tooltip of values with the keyword
+   */
+  hoverText?: (context: KeywordContext) => string | undefined;
+  /**
+   * values to suggest for values with the keyword
+   */
+  completionValues?: (context: KeywordContext) => unknown[] | undefined;
+};
+
+// every key used anywhere in a schema, per schema
+const schemaKeysCache = new WeakMap<object, Set<string>>();
+
+function getSchemaKeys(schema: unknown, keys = new Set<string>()) {
+  if (Array.isArray(schema)) {
+    schema.forEach((s) => getSchemaKeys(s, keys));
+  } else if (schema && typeof schema === "object") {
+    Object.entries(schema).forEach(([key, value]) => {
+      keys.add(key);
+      getSchemaKeys(value, keys);
+    });
+  }
+  return keys;
+}
+
+/**
+ * return the plugins for keywords that appear in the schema,
+ * so that documents for other schemas can skip the lookups
+ * @group Utilities
+ */
+export function getActivePlugins(
+  schema: object,
+  plugins: KeywordPlugin[] = []
+): KeywordPlugin[] {
+  if (!plugins.length) {
+    return plugins;
+  }
+  let keys = schemaKeysCache.get(schema);
+  if (!keys) {
+    keys = getSchemaKeys(schema);
+    schemaKeysCache.set(schema, keys);
+  }
+  return plugins.filter((plugin) => keys?.has(plugin.keyword));
+}
+
+/**
+ * build the context for the plugins of a subschema.
+ * returns `undefined` when the subschema doesn't have the keyword
+ * @group Utilities
+ */
+export function getKeywordContext(
+  plugin: KeywordPlugin,
+  schema: JsonSchema | undefined,
+  pointer: string,
+  data: unknown
+): KeywordContext | undefined {
+  if (!schema || typeof schema !== "object" || !(plugin.keyword in schema)) {
+    return undefined;
+  }
+  return {
+    keywordValue: schema[plugin.keyword],
+    schema,
+    pointer,
+    value: data === undefined ? undefined : gp.get(data, pointer),
+    data,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * a message template with `{{name}}` placeholders for the error data,
+ * or a function that returns the message for the data
+ */
+export type MessageTemplate =
+  | string
+  | ((data: Record<string, any>, locale?: string) => string);
+
+/**
+ * message templates keyed by error code, i.e. `required-property-error`,
+ * or by the other message keys of `defaultMessages`
+ */
+export type MessageCatalog = Record<string, MessageTemplate>;
+
+export type MessageOptions = {
+  /**
+   * The locale for joining lists, i.e. `de` or `ja`. It only applies along
+   * with `messages`, so the default messages are joined in english
+   * @default "en"
+   */
+  locale?: string;
+  /**
+   * Message templates that override `defaultMessages`
+   */
+  messages?: MessageCatalog;
+};
+
+/**
+ * the english messages. lists, like the expected types, are joined for the locale
+ * @group Utilities
+ */
+export const defaultMessages: MessageCatalog = {
+  // json-schema-library errors
+  "additional-items-error":
+    "Array at `{{pointer}}` may not have an additional item `{{key}}`",
+  "additional-properties-error":
+    "Additional property `{{property}}` on `{{pointer}}` does not match schema `{{schema}}`",
+  "all-of-error":
+    "Value `{{value}}` at `{{pointer}}` does not match schema of `{{allOf}}`",
+  "any-of-error":
+    "Value `{{value}}` at `{{pointer}}` does not match any schema of `{{anyOf}}`",
+  "const-error":
+    "Expected value at `{{pointer}}` to be `{{expected}}`, but value given is `{{value}}`",
+  "contains-any-error":
+    "The array at `{{pointer}}` must contain at least one item",
+  "contains-array-error": "The property at `{{pointer}}` must not be an array",
+  "contains-error":
+    "The array at `{{pointer}}` must contain an element that matches `{{schema}}`",
+  "enum-error":
+    "Expected given value `{{value}}` in `{{pointer}}` to be one of `{{values}}`",
+  "forbidden-property-error":
+    "Property name `{{property}}` at `{{pointer}}` is not allowed",
+  "format-date-error": "Value `{{value}}` at `{{pointer}}` is not a valid date",
+  "format-date-time-error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid date-time",
+  "format-email-error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid email",
+  "format-hostname-error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid hostname",
+  "format-ipv4error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid IPv4 address",
+  "format-ipv4leading-zero-error":
+    "IPv4 addresses starting with zero are invalid, since they are interpreted as octals",
+  "format-ipv6error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid IPv6 address",
+  "format-ipv6leading-zero-error":
+    "IPv6 addresses starting with zero are invalid, since they are interpreted as octals",
+  "format-json-pointer-error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid json-pointer",
+  "format-reg-ex-error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid regular expression",
+  "format-time-error": "Value `{{value}}` at `{{pointer}}` is not a valid time",
+  "format-urierror": "Value `{{value}}` at `{{pointer}}` is not a valid uri",
+  "format-urireference-error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid uri-reference",
+  "format-uritemplate-error":
+    "Value `{{value}}` at `{{pointer}}` is not a valid uri-template",
+  "format-urlerror": "Value `{{value}}` at `{{pointer}}` is not a valid url",
+  "invalid-data-error": "No value may be specified in `{{pointer}}`",
+  "invalid-property-name-error":
+    "Invalid property name `{{property}}` at `{{pointer}}`",
+  "maximum-error":
+    "Value in `{{pointer}}` is `{{length}}`, but should be `{{maximum}}` at maximum",
+  "max-items-error":
+    "Too many items in `{{pointer}}`, should be `{{maximum}}` at most, but got `{{length}}`",
+  "max-length-error":
+    "Value `{{pointer}}` should have a maximum length of `{{maxLength}}`, but got `{{length}}`.",
+  "max-properties-error":
+    "Too many properties in `{{pointer}}`, should be `{{maximum}}` at most, but got `{{length}}`",
+  "minimum-error":
+    "Value in `{{pointer}}` is `{{length}}`, but should be `{{minimum}}` at minimum",
+  "min-items-error":
+    "Too few items in `{{pointer}}`, should be at least `{{minimum}}`, but got `{{length}}`",
+  "min-items-one-error": "At least one item is required in `{{pointer}}`",
+  "min-length-error":
+    "Value `{{pointer}}` should have a minimum length of `{{minLength}}`, but got `{{length}}`.",
+  "min-length-one-error": "A value is required in `{{pointer}}`",
+  "min-properties-error":
+    "Too few properties in `{{pointer}}`, should be at least `{{minimum}}`, but got `{{length}}`",
+  "missing-dependency-error":
+    "The required propery '{{missingProperty}}' in `{{pointer}}` is missing",
+  "missing-one-of-property-error":
+    "Value at `{{pointer}}` property: `{{property}}`",
+  "multiple-of-error":
+    "Expected `{{value}}` in `{{pointer}}` to be multiple of `{{multipleOf}}`",
+  "multiple-one-of-error":
+    "Value `{{value}}` should not match multiple schemas in oneOf `{{matches}}`",
+  "no-additional-properties-error":
+    "Additional property `{{property}}` in `{{pointer}}` is not allowed",
+  "not-error": "Value `{{value}}` at pointer should not match schema `{{not}}`",
+  "one-of-error": "Expected one of {{expected}}",
+  "one-of-property-error":
+    "Failed finding a matching oneOfProperty schema in `{{pointer}}` where `{{property}}` matches `{{value}}`",
+  "pattern-error":
+    "Value in `{{pointer}}` should match `{{description}}`, but received `{{received}}`",
+  "pattern-properties-error":
+    "Property `{{key}}` does not match any patterns in `{{pointer}}`. Valid patterns are: {{patterns}}",
+  "required-property-error":
+    "The required property `{{key}}` is missing at `{{pointer}}`",
+  "type-error": "Expected {{expected}} but received `{{received}}`",
+  "undefined-value-error": "Value must not be undefined in `{{pointer}}`",
+  "unique-items-error":
+    "Items in array must be unique. Value `{{value}}` in `{{pointer}}` is a duplicate of {{duplicatePointer}}.",
+  "unknown-property-error":
+    "Could not find a valid schema for property `{{pointer}}` within object",
+  "value-not-empty-error":
+    "A value for `{{property}}` is required at `{{pointer}}`",
+  // errors created by this library
+  "format-error": "Expected format `{{format}}` but received `{{value}}`",
+  "deprecated-property-warning": "`{{property}}` is deprecated",
+  "duplicate-key-error": "Duplicate key `{{key}}`",
+  "assumed-branch":
+    "{{message}} (assuming the `{{branch}}` branch of `{{keyword}}`)",
+  "first-occurrence": "First occurrence of `{{key}}`",
+  "parse-timeout-error":
+    "The document could not be parsed within {{timeout}}ms",
+  deprecated: "Deprecated",
+  // quick fixes
+  "add-property-action": 'Add property "{{key}}"',
+  "remove-property-action": 'Remove property "{{property}}"',
+  "remove-duplicate-key-action": 'Remove duplicate "{{key}}"',
+  "replace-value-action": "Replace with {{value}}",
+  "convert-to-number-action": "Convert to number",
+  "convert-to-boolean-action": "Convert to boolean",
+  // completion details
+  "default-value": "Default value",
+  "additional-property-label": "any key",
+  "property-key-placeholder": "key",
+  "fill-required-properties": "Fill in required properties",
+  "required-section": "Required",
+  "optional-section": "Optional",
+  "deprecated-section": "Deprecated",
+  "branch-section": "From {{keyword}} #{{index}}",
+};
+
+// objects and arrays are rendered as json, like json-schema-library does
+const renderValue = (value: unknown) =>
+  value !== null && typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+/**
+ * render the message for a key of the catalog,
+ * or return `undefined` when there is no template for it
+ * @group Utilities
+ */
+export function translate(
+  key: string,
+  data: Record<string, any> = {},
+  options: MessageOptions = {}
+): string | undefined {
+  const template = options.messages?.[key] ?? defaultMessages[key];
+  if (typeof template === "function") {
+    return template(data, options.locale);
+  }
+  return template?.replace(/\{\{(\w+)\}\}/g, (_, name: string) =>
+    renderValue(data[name])
+  );
+}
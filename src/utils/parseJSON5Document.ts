@@ -6,17 +6,22 @@ import { json5 as json5mode } from "codemirror-json5";
 import json5 from "json5";
 import { EditorState } from "@codemirror/state";
 import { getJsonPointers } from "./jsonPointers";
+import { parseJSONTree } from "./parseJSONTree";
+import { getFullyParsedState } from "./fullParse";
 
 /**
- * Return parsed data and json5 pointers for a given codemirror EditorState
+ * Return parsed data and json5 pointers for a given codemirror EditorState.
+ * The data is read from the syntax tree when the document is broken
  * @group Utilities
  */
 export function parseJSON5DocumentState(state: EditorState) {
   let data = null;
   try {
     data = json5.parse(state.doc.toString());
-    // return pointers regardless of whether JSON.parse succeeds
-  } catch {}
+  } catch {
+    // build a best-effort value from the syntax tree for broken documents
+    data = parseJSONTree(state) ?? null;
+  }
   const pointers = getJsonPointers(state, "json5");
   return { data, pointers };
 }
@@ -30,5 +35,5 @@ export function parseJSON5Document(jsonString: string) {
     doc: jsonString,
     extensions: [json5mode()],
   });
-  return parseJSON5DocumentState(state);
+  return parseJSON5DocumentState(getFullyParsedState(state) ?? state);
 }
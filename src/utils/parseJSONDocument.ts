@@ -1,17 +1,22 @@
 import { json } from "@codemirror/lang-json";
 import { EditorState } from "@codemirror/state";
 import { getJsonPointers } from "./jsonPointers";
+import { parseJSONTree } from "./parseJSONTree";
+import { getFullyParsedState } from "./fullParse";
 
 /**
- * Return parsed data and json pointers for a given codemirror EditorState
+ * Return parsed data and json pointers for a given codemirror EditorState.
+ * The data is read from the syntax tree when the document is broken
  * @group Utilities
  */
 export function parseJSONDocumentState(state: EditorState) {
   let data = null;
   try {
     data = JSON.parse(state.doc.toString());
-    // return pointers regardless of whether JSON.parse succeeds
-  } catch {}
+  } catch {
+    // build a best-effort value from the syntax tree for broken documents
+    data = parseJSONTree(state) ?? null;
+  }
   const pointers = getJsonPointers(state, "json4");
   return { data, pointers };
 }
@@ -22,5 +27,5 @@ export function parseJSONDocumentState(state: EditorState) {
  */
 export function parseJSONDocument(jsonString: string) {
   const state = EditorState.create({ doc: jsonString, extensions: [json()] });
-  return parseJSONDocumentState(state);
+  return parseJSONDocumentState(getFullyParsedState(state) ?? state);
 }
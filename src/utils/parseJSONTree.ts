@@ -0,0 +1,112 @@
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState, Text } from "@codemirror/state";
+import type { SyntaxNode } from "@lezer/common";
+import { COMPLEX_TYPES, PRIMITIVE_TYPES, TOKENS } from "../constants";
+
+const VALUE_TYPES = [...PRIMITIVE_TYPES, ...COMPLEX_TYPES];
+
+const STRING_ESCAPES: Record<string, string> = {
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "0": "\0",
+};
+
+// decode a single or double quoted json/json5 string literal
+function parseString(text: string) {
+  const quote = text[0];
+  if (quote !== '"' && quote !== "'") {
+    // unquoted json5 property names
+    return text;
+  }
+  const body = text.slice(1, text.endsWith(quote) ? -1 : undefined);
+  return body.replace(
+    /\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r\n|[\s\S])/g,
+    (_, escape: string) => {
+      if (escape[0] === "u" || escape[0] === "x") {
+        if (escape.length > 1) {
+          return String.fromCharCode(parseInt(escape.slice(1), 16));
+        }
+      }
+      // json5 line continuations
+      if (escape === "\n" || escape === "\r" || escape === "\r\n") {
+        return "";
+      }
+      return STRING_ESCAPES[escape] ?? escape;
+    }
+  );
+}
+
+// json5 allows hex, leading/trailing decimal points, signs, Infinity and NaN
+function parseNumber(text: string) {
+  const sign = text[0] === "-" ? -1 : 1;
+  const unsigned = text.replace(/^[+-]/, "");
+  const value = Number(unsigned);
+  return isNaN(value) && unsigned !== "NaN" ? undefined : sign * value;
+}
+
+const getValueChildren = (node: SyntaxNode) => {
+  const children: SyntaxNode[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (VALUE_TYPES.includes(child.name)) {
+      children.push(child);
+    }
+  }
+  return children;
+};
+
+/**
+ * Return the value of a json or json5 syntax node, or `undefined` for
+ * invalid nodes. Invalid properties are skipped, so that a best-effort value
+ * is returned for partially broken documents. Invalid array items are kept
+ * as `undefined`, so that the indices of the items match their pointers
+ * @group Utilities
+ */
+export function getNodeValue(doc: Text, node: SyntaxNode): unknown {
+  const text = doc.sliceString(node.from, node.to);
+  switch (node.name) {
+    case TOKENS.STRING:
+      return parseString(text);
+    case TOKENS.NUMBER:
+      return parseNumber(text);
+    case TOKENS.TRUE:
+      return true;
+    case TOKENS.FALSE:
+      return false;
+    case TOKENS.NULL:
+      return null;
+    case TOKENS.ARRAY:
+      return getValueChildren(node).map((child) => getNodeValue(doc, child));
+    case TOKENS.OBJECT: {
+      const result: Record<string, unknown> = {};
+      node.getChildren(TOKENS.PROPERTY).forEach((property) => {
+        const keyNode = property.getChild(TOKENS.PROPERTY_NAME);
+        const valueNode = getValueChildren(property)[0];
+        if (!keyNode || !valueNode) {
+          return;
+        }
+        const value = getNodeValue(doc, valueNode);
+        if (value !== undefined) {
+          result[parseString(doc.sliceString(keyNode.from, keyNode.to))] =
+            value;
+        }
+      });
+      return result;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the value of a json or json5 document from its syntax tree,
+ * tolerating syntax errors by skipping invalid nodes
+ * @group Utilities
+ */
+export function parseJSONTree(state: EditorState): unknown {
+  // the top node is `JsonText` for json4, and `File` for json5
+  const valueNode = getValueChildren(syntaxTree(state).topNode)[0];
+  return valueNode ? getNodeValue(state.doc, valueNode) : undefined;
+}
@@ -0,0 +1,41 @@
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState, Text } from "@codemirror/state";
+import type { Tree } from "@lezer/common";
+import type { JSONPointersMap } from "../types";
+import { parseJSONDocumentState } from "./parseJSONDocument";
+
+export type ParsedDocument = { data: any; pointers: JSONPointersMap };
+
+export type JSONDocumentParser = (state: EditorState) => ParsedDocument;
+
+// parse results for each version of a document, per parser.
+// the tree is compared as well, because it may still be parsing in the background
+const documentCache = new WeakMap<
+  Text,
+  Map<JSONDocumentParser, { tree: Tree; result: ParsedDocument }>
+>();
+
+/**
+ * Return the parsed data and pointers for the current document,
+ * which are shared by validation, hover and completion, and only
+ * recomputed once the document or its syntax tree has changed
+ * @group Utilities
+ */
+export function getParsedDocument(
+  state: EditorState,
+  parser: JSONDocumentParser = parseJSONDocumentState
+): ParsedDocument {
+  const tree = syntaxTree(state);
+  let results = documentCache.get(state.doc);
+  if (!results) {
+    results = new Map();
+    documentCache.set(state.doc, results);
+  }
+  const cached = results.get(parser);
+  if (cached && cached.tree === tree) {
+    return cached.result;
+  }
+  const result = parser(state);
+  results.set(parser, { tree, result });
+  return result;
+}
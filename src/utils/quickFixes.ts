@@ -0,0 +1,242 @@
+import type { Action } from "@codemirror/lint";
+import type { EditorView } from "@codemirror/view";
+import type { EditorState } from "@codemirror/state";
+import { syntaxTree } from "@codemirror/language";
+import type { SyntaxNode } from "@lezer/common";
+import {
+  isJsonError,
+  type Draft,
+  type JsonError,
+  type JsonSchema,
+} from "json-schema-library";
+import { TOKENS } from "../constants";
+import getSchema from "./schema-lib/getSchema";
+import { translate, type MessageOptions } from "./messages";
+
+// long enums would crowd the diagnostic tooltip
+const MAX_ENUM_ACTIONS = 5;
+
+const TYPE_PLACEHOLDERS: Record<string, unknown> = {
+  string: "",
+  number: 0,
+  integer: 0,
+  boolean: false,
+  object: {},
+  array: [],
+  null: null,
+};
+
+/**
+ * guess a value for a schema, from its `default`, `const`,
+ * `examples` or `enum`, or else an empty value of its type
+ * @group Utilities
+ */
+export function getPlaceholderValue(schema?: JsonSchema): unknown {
+  if (!schema) {
+    return null;
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (Array.isArray(schema.examples) && schema.examples.length) {
+    return schema.examples[0];
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length) {
+    return schema.enum[0];
+  }
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  if (!type && schema.properties) {
+    return {};
+  }
+  return type in TYPE_PLACEHOLDERS ? TYPE_PLACEHOLDERS[type] : null;
+}
+
+// find the node of the given type that starts exactly at `from`
+const getNodeStartingAt = (state: EditorState, from: number, name: string) => {
+  let node: SyntaxNode | null = syntaxTree(state).resolveInner(from, 1);
+  while (node && !(node.name === name && node.from === from)) {
+    node = node.parent;
+  }
+  return node;
+};
+
+const replaceValue =
+  (text: string) => (view: EditorView, from: number, to: number) => {
+    view.dispatch({
+      changes: { from, to, insert: text },
+      userEvent: "input.quickfix",
+    });
+  };
+
+function addPropertyAction(
+  draft: Draft,
+  error: JsonError,
+  data: unknown,
+  options?: MessageOptions
+): Action {
+  const key: string = error.data?.key;
+  const pointer = error.data?.pointer?.replace(/^#/, "") ?? "";
+  let propertySchema = getSchema(draft, `${pointer}/${key}`, data);
+  if (isJsonError(propertySchema)) {
+    propertySchema = getSchema(draft, `${pointer}/${key}`);
+  }
+  const valueText = JSON.stringify(
+    getPlaceholderValue(
+      isJsonError(propertySchema) ? undefined : propertySchema
+    )
+  );
+  const entry = `${JSON.stringify(key)}: ${valueText}`;
+  return {
+    name: translate("add-property-action", { key }, options) ?? key,
+    apply(view, from) {
+      const { state } = view;
+      const object = getNodeStartingAt(state, from, TOKENS.OBJECT);
+      if (!object) {
+        return;
+      }
+      const properties = object.getChildren(TOKENS.PROPERTY);
+      const last = properties[properties.length - 1];
+      let at = object.from + 1;
+      let insert = entry;
+      if (last) {
+        const line = state.doc.lineAt(last.from);
+        const indent = /^\s*/.exec(line.text)?.[0] ?? "";
+        // keep multi-line objects one property per line
+        insert =
+          line.number !== state.doc.lineAt(object.from).number
+            ? `,\n${indent}${entry}`
+            : `, ${entry}`;
+        at = last.to;
+      }
+      const end = at + insert.length;
+      view.dispatch({
+        changes: { from: at, insert },
+        // select the inserted value, so that it can be typed over
+        selection: { anchor: end - valueText.length, head: end },
+        userEvent: "input.quickfix",
+      });
+    },
+  };
+}
+
+// remove the property whose key starts at the diagnostic
+function removePropertyAction(name: string): Action {
+  return {
+    name,
+    apply(view, from) {
+      const { state } = view;
+      const property = getNodeStartingAt(
+        state,
+        from,
+        TOKENS.PROPERTY_NAME
+      )?.parent;
+      if (!property) {
+        return;
+      }
+      const next = property.nextSibling;
+      const prev = property.prevSibling;
+      // remove the separating comma along with the property
+      let start = property.from;
+      let end = property.to;
+      if (next?.name === TOKENS.PROPERTY) {
+        end = next.from;
+      } else if (prev?.name === TOKENS.PROPERTY) {
+        start = prev.to;
+      } else {
+        const rest = state.sliceDoc(end, property.parent?.to);
+        end += /^\s*,?/.exec(rest)?.[0].length ?? 0;
+      }
+      view.dispatch({
+        changes: { from: start, to: end },
+        userEvent: "delete.quickfix",
+      });
+    },
+  };
+}
+
+function enumActions(error: JsonError, options?: MessageOptions): Action[] {
+  const values: unknown[] = error.data?.values ?? [];
+  return values.slice(0, MAX_ENUM_ACTIONS).map((value) => {
+    const text = JSON.stringify(value);
+    return {
+      name: translate("replace-value-action", { value: text }, options) ?? text,
+      apply: replaceValue(text),
+    };
+  });
+}
+
+function convertTypeActions(
+  error: JsonError,
+  options?: MessageOptions
+): Action[] {
+  const { value, received } = error.data ?? {};
+  if (received !== "string" || typeof value !== "string") {
+    return [];
+  }
+  const expected: string[] = [error.data?.expected].flat();
+  const actions: Action[] = [];
+  const number = Number(value);
+  if (
+    value.trim() !== "" &&
+    isFinite(number) &&
+    (expected.includes("number") ||
+      (expected.includes("integer") && Number.isInteger(number)))
+  ) {
+    actions.push({
+      name:
+        translate("convert-to-number-action", {}, options) ??
+        "convert-to-number-action",
+      apply: replaceValue(String(number)),
+    });
+  }
+  if (expected.includes("boolean") && /^(true|false)$/.test(value.trim())) {
+    actions.push({
+      name:
+        translate("convert-to-boolean-action", {}, options) ??
+        "convert-to-boolean-action",
+      apply: replaceValue(value.trim()),
+    });
+  }
+  return actions;
+}
+
+/**
+ * return the quick fixes for a validation error.
+ * each fix is applied as a single transaction, so it's undone in one step
+ * @group Utilities
+ */
+export function getQuickFixes(
+  draft: Draft | undefined,
+  error: JsonError,
+  data: unknown,
+  options?: MessageOptions
+): Action[] {
+  switch (error.code) {
+    case "required-property-error":
+      return draft ? [addPropertyAction(draft, error, data, options)] : [];
+    case "no-additional-properties-error": {
+      const property = error.data?.property;
+      return [
+        removePropertyAction(
+          translate("remove-property-action", { property }, options) ?? property
+        ),
+      ];
+    }
+    case "duplicate-key-error": {
+      const key = error.data?.key;
+      return [
+        removePropertyAction(
+          translate("remove-duplicate-key-action", { key }, options) ?? key
+        ),
+      ];
+    }
+    case "enum-error":
+      return enumActions(error, options);
+    case "type-error":
+      return convertTypeActions(error, options);
+  }
+  return [];
+}
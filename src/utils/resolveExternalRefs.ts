@@ -0,0 +1,188 @@
+import type { JSONSchema7 } from "json-schema";
+import { debug } from "./debug";
+
+/**
+ * loads the schema document for an external `$ref` uri, i.e. `common.json`.
+ * may return the schema synchronously, or a promise
+ */
+export type SchemaLoader = (
+  uri: string
+) => JSONSchema7 | undefined | Promise<JSONSchema7 | undefined>;
+
+export type ResolveExternalRefsOptions = {
+  /**
+   * Load the schema document for an external `$ref` uri
+   */
+  loadSchema: SchemaLoader;
+  /**
+   * The uri that relative `$ref`s in the root schema are resolved against
+   * @default the root schema's `$id`
+   */
+  baseUri?: string;
+};
+
+// documents are cached per loader, so that swapping schemas that
+// share external documents doesn't fetch them again
+const loaderCaches = new WeakMap<
+  SchemaLoader,
+  Map<string, Promise<JSONSchema7 | undefined>>
+>();
+
+// schemas returned by `resolveExternalRefs()`, which need no more linking
+const linkedSchemas = new WeakSet<JSONSchema7>();
+
+const escapePointerSegment = (segment: string) =>
+  segment.replace(/~/g, "~0").replace(/\//g, "~1");
+
+// remote documents are inlined under `definitions`, keyed by their uri
+const remotePointer = (uri: string, fragment = "") =>
+  `#/definitions/${escapePointerSegment(uri)}${fragment}`;
+
+/**
+ * resolve a (relative) `$ref` uri against the uri of the document it's in
+ */
+export function resolveUri(ref: string, base?: string) {
+  try {
+    return new URL(ref, base).href;
+  } catch {
+    // neither the ref nor the base are absolute urls, i.e. `common.json`
+    if (!base || ref.startsWith("/")) {
+      return ref;
+    }
+    return base.replace(/[^/]*$/, "") + ref;
+  }
+}
+
+function loadCached(loadSchema: SchemaLoader, uri: string) {
+  let cache = loaderCaches.get(loadSchema);
+  if (!cache) {
+    cache = new Map();
+    loaderCaches.set(loadSchema, cache);
+  }
+  let result = cache.get(uri);
+  if (!result) {
+    result = Promise.resolve()
+      .then(() => loadSchema(uri))
+      .catch((err) => {
+        debug.log("failed to load schema", uri, err);
+        // allow retrying failed documents next time
+        cache?.delete(uri);
+        return undefined;
+      });
+    cache.set(uri, result);
+  }
+  return result;
+}
+
+// collect every object with a string `$ref` in a schema document
+function collectRefs(node: unknown, refs: { $ref: string }[] = []) {
+  if (Array.isArray(node)) {
+    node.forEach((n) => collectRefs(n, refs));
+  } else if (node && typeof node === "object") {
+    if (typeof (node as JSONSchema7).$ref === "string") {
+      refs.push(node as { $ref: string });
+    }
+    Object.values(node).forEach((n) => collectRefs(n, refs));
+  }
+  return refs;
+}
+
+/**
+ * Returns true if the schema contains a `$ref` to another document
+ * @group Utilities
+ */
+export function hasExternalRefs(schema: JSONSchema7) {
+  return collectRefs(schema).some(({ $ref }) => !$ref.startsWith("#"));
+}
+
+/**
+ * Fetch every document referenced by an external `$ref`, i.e.
+ * `common.json#/definitions/id`, and return a copy of the schema
+ * with those documents inlined under `definitions`, and all `$ref`s
+ * rewritten to local pointers.
+ *
+ * Documents are cached per `loadSchema` function.
+ * Documents that fail to load leave their `$ref`s untouched.
+ * @group Utilities
+ */
+export async function resolveExternalRefs(
+  schema: JSONSchema7,
+  options: ResolveExternalRefsOptions
+): Promise<JSONSchema7> {
+  if (linkedSchemas.has(schema) || !hasExternalRefs(schema)) {
+    return schema;
+  }
+  const rootUri = options.baseUri ?? schema.$id;
+  const root: JSONSchema7 = JSON.parse(JSON.stringify(schema));
+  const documents = new Map<string, Promise<JSONSchema7 | undefined>>();
+  // refs are only rewritten once we know their document could be loaded
+  const links: [node: { $ref: string }, uri: string, fragment: string][] = [];
+
+  const loadDocument = (uri: string) => {
+    let result = documents.get(uri);
+    if (!result) {
+      result = loadCached(options.loadSchema, uri).then((remote) => {
+        if (!remote) {
+          return undefined;
+        }
+        const copy = JSON.parse(JSON.stringify(remote));
+        // the document now lives inside the root schema,
+        // so its own scope would break the rewritten refs
+        delete copy.$id;
+        delete copy.id;
+        delete copy.$schema;
+        linkDocument(copy, uri);
+        return copy;
+      });
+      documents.set(uri, result);
+    }
+    return result;
+  };
+
+  const linkDocument = (document: JSONSchema7, base?: string) => {
+    collectRefs(document).forEach((node) => {
+      const hashIndex = node.$ref.indexOf("#");
+      const path = hashIndex < 0 ? node.$ref : node.$ref.slice(0, hashIndex);
+      const fragment = hashIndex < 0 ? "" : node.$ref.slice(hashIndex + 1);
+      // only json pointer fragments can be rewritten
+      if (fragment && !fragment.startsWith("/")) {
+        return;
+      }
+      const uri = path ? resolveUri(path, base) : base;
+      if (!uri) {
+        return;
+      }
+      if (rootUri && uri === resolveUri(rootUri)) {
+        node.$ref = `#${fragment}`;
+        return;
+      }
+      // local refs in the root schema are left as they are
+      if (document === root && !path) {
+        return;
+      }
+      links.push([node, uri, fragment]);
+      loadDocument(uri);
+    });
+  };
+
+  linkDocument(root, rootUri);
+
+  // documents may add more documents while they are being linked
+  const definitions: Record<string, JSONSchema7> = {};
+  for (const [uri, document] of documents) {
+    const remote = await document;
+    if (remote) {
+      definitions[uri] = remote;
+    }
+  }
+  links.forEach(([node, uri, fragment]) => {
+    if (definitions[uri]) {
+      node.$ref = remotePointer(uri, fragment);
+    } else {
+      debug.log("unresolved external ref", node.$ref);
+    }
+  });
+  root.definitions = { ...root.definitions, ...definitions };
+  linkedSchemas.add(root);
+  return root;
+}
@@ -8,6 +8,8 @@ import {
   reduceSchema,
 } from "json-schema-library";
 
+import { getConditionalSchemas } from "../conditionalSchemas";
+
 // @ts-expect-error
 import errors from "json-schema-library/dist/module/lib/validation/errors";
 
@@ -98,10 +100,16 @@ const stepType: Record<string, StepFunction> = {
   },
 
   object: (draft, key, schema, data, pointer) => {
+    const conditionals = getConditionalSchemas(draft, schema, data);
     schema = reduceSchema(draft, schema, data);
 
     // @feature properties
-    const property = schema?.properties?.[key];
+    // `reduceSchema` doesn't merge `dependentSchemas`
+    const property =
+      schema?.properties?.[key] ??
+      conditionals.find((s) => s?.properties?.[key] !== undefined)?.properties[
+        key
+      ];
     if (property !== undefined) {
       // @todo patternProperties also validate properties
 
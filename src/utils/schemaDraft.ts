@@ -0,0 +1,95 @@
+import type { JSONSchema7 } from "json-schema";
+import { type Draft, Draft04, Draft06, Draft07 } from "json-schema-library";
+import { draft2019Config } from "./draft2019";
+
+/**
+ * the json schema drafts that can be detected or selected.
+ * `2019-09` and `2020-12` extend draft-07 with `dependentRequired`,
+ * `dependentSchemas`, `prefixItems`, `unevaluatedProperties` and
+ * `unevaluatedItems`. their other changes, like `$dynamicRef`, aren't supported
+ */
+export type JSONSchemaDraft =
+  | "draft-04"
+  | "draft-06"
+  | "draft-07"
+  | "2019-09"
+  | "2020-12";
+
+// matched against the `$schema` uri, i.e. `http://json-schema.org/draft-04/schema#`
+// or `https://json-schema.org/draft/2020-12/schema`
+const draftPatterns: [RegExp, JSONSchemaDraft][] = [
+  [/draft-04\/schema/, "draft-04"],
+  [/draft-06\/schema/, "draft-06"],
+  [/draft-07\/schema/, "draft-07"],
+  [/draft\/2019-09\/schema/, "2019-09"],
+  [/draft\/2020-12\/schema/, "2020-12"],
+];
+
+/**
+ * the draft used when neither `$schema` nor a `draft` option is present
+ */
+export const DEFAULT_DRAFT: JSONSchemaDraft = "draft-07";
+
+/**
+ * detect the json schema draft from the schema's `$schema` uri
+ * @group Utilities
+ */
+export function getSchemaDraft(
+  schema: JSONSchema7
+): JSONSchemaDraft | undefined {
+  const uri = schema.$schema;
+  if (typeof uri !== "string") {
+    return undefined;
+  }
+  return draftPatterns.find(([pattern]) => pattern.test(uri))?.[1];
+}
+
+/**
+ * create a json-schema-library `Draft` instance for a schema.
+ * the `draft` override wins over the draft detected from `$schema`.
+ * @group Utilities
+ */
+export function createDraft(
+  schema: JSONSchema7,
+  draft: JSONSchemaDraft = getSchemaDraft(schema) ?? DEFAULT_DRAFT
+): Draft {
+  switch (draft) {
+    case "draft-04":
+      return new Draft04(schema);
+    case "draft-06":
+      return new Draft06(schema);
+    // json-schema-library doesn't implement 2019-09 or 2020-12 yet,
+    // so these add their keywords to draft-07, which they mostly extend
+    case "2019-09":
+    case "2020-12":
+      return new Draft07(schema, draft2019Config);
+    case "draft-07":
+      return new Draft07(schema);
+  }
+}
+
+// compiled drafts are shared by validation, hover and completion,
+// so that each schema is only compiled once per draft
+const draftCache = new WeakMap<JSONSchema7, Map<JSONSchemaDraft, Draft>>();
+
+/**
+ * return the cached json-schema-library `Draft` instance for a schema,
+ * creating it with `createDraft()` on first use
+ * @group Utilities
+ */
+export function getDraft(
+  schema: JSONSchema7,
+  draft: JSONSchemaDraft = getSchemaDraft(schema) ?? DEFAULT_DRAFT
+): Draft {
+  let drafts = draftCache.get(schema);
+  if (!drafts) {
+    drafts = new Map();
+    draftCache.set(schema, drafts);
+  }
+  let result = drafts.get(draft);
+  if (!result) {
+    result = createDraft(schema, draft);
+    drafts.set(draft, result);
+  }
+  return result;
+}
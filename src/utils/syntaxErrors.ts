@@ -0,0 +1,57 @@
+import type { Diagnostic } from "@codemirror/lint";
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+import json5 from "json5";
+
+/**
+ * the position of a `JSON.parse()` or `json5.parse()` error, as the parse
+ * linters of `@codemirror/lang-json` and `codemirror-json5` find it,
+ * or else the first syntax error in the state's tree
+ */
+export const getErrorPosition = (
+  error: SyntaxError & { lineNumber?: number; columnNumber?: number },
+  state: EditorState
+) => {
+  const { doc } = state;
+  const position = /at position (\d+)/.exec(error.message);
+  if (position) {
+    return Math.min(Number(position[1]), doc.length);
+  }
+  const lineColumn = /at line (\d+) column (\d+)/.exec(error.message);
+  const [line, column] = lineColumn
+    ? [Number(lineColumn[1]), Number(lineColumn[2])]
+    : [error.lineNumber, error.columnNumber];
+  if (line && column && line <= doc.lines) {
+    return Math.min(doc.line(line).from + column - 1, doc.length);
+  }
+  let pos = 0;
+  syntaxTree(state).iterate({
+    enter: (node) => {
+      if (node.type.isError && !pos) {
+        pos = node.from;
+      }
+      return !pos;
+    },
+  });
+  return pos;
+};
+
+/**
+ * the syntax error of a json or json5 document, with the message of the
+ * editor's parse linter
+ */
+export function getSyntaxErrors(
+  state: EditorState,
+  mode: "json" | "json5" = "json"
+): Diagnostic[] {
+  try {
+    (mode === "json5" ? json5.parse : JSON.parse)(state.doc.toString());
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) {
+      throw error;
+    }
+    const pos = getErrorPosition(error, state);
+    return [{ from: pos, to: pos, message: error.message, severity: "error" }];
+  }
+  return [];
+}
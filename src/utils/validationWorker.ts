@@ -0,0 +1,216 @@
+import type { JSONSchema7 } from "json-schema";
+import type { Draft, JsonError } from "json-schema-library";
+import type { JSONMode } from "./jsonPointers";
+import { parseJSONDocument } from "./parseJSONDocument";
+import { parseJSON5Document } from "./parseJSON5Document";
+import { getDraft, type JSONSchemaDraft } from "./schemaDraft";
+import { defaultFormats, withFormats, type FormatValidator } from "./formats";
+import { expandBranchErrors } from "./bestBranch";
+
+/**
+ * the schema to validate the following requests against.
+ * it's only sent when the schema changes, rather than with every request
+ */
+export type ValidationSchema = {
+  type: "schema";
+  schema: JSONSchema7;
+  draft?: JSONSchemaDraft;
+};
+
+export type ValidationRequest = {
+  type: "validate";
+  id: number;
+  text: string;
+  mode: JSONMode;
+};
+
+export type ValidationCancel = {
+  type: "cancel";
+  id: number;
+};
+
+export type ValidationMessage =
+  | ValidationSchema
+  | ValidationRequest
+  | ValidationCancel;
+
+export type ValidationResponse =
+  | { id: number; errors: JsonError[] }
+  | { id: number; error: string };
+
+/**
+ * the main thread's side of the worker, i.e. a `Worker`,
+ * or a fake transport for tests
+ */
+export interface ValidationTransport {
+  postMessage(message: ValidationMessage): void;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: ValidationResponse }) => void
+  ): void;
+}
+
+/**
+ * the worker's side of the transport, i.e. `self` in a web worker,
+ * or `parentPort` with `worker_threads`
+ */
+export interface ValidationWorkerScope {
+  postMessage(message: ValidationResponse): void;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: ValidationMessage }) => void
+  ): void;
+}
+
+export type ValidationWorkerOptions = {
+  /**
+   * Validators for `format` values by name, which can't be sent to the worker.
+   * merged with the built-in `defaultFormats`
+   */
+  formats?: Record<string, FormatValidator>;
+};
+
+const DEFAULT_TIMEOUT = 10000;
+
+type PendingRequest = {
+  resolve: (errors: JsonError[] | null) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * sends documents to a validation worker, one at a time.
+ * sending a document cancels the requests for older versions
+ */
+export class ValidationClient {
+  private id = 0;
+  private pending = new Map<number, PendingRequest>();
+  // the schema the worker has, by identity
+  private sent?: Omit<ValidationSchema, "type">;
+  public constructor(
+    private transport: ValidationTransport,
+    private timeout = DEFAULT_TIMEOUT
+  ) {
+    transport.addEventListener("message", ({ data }) => this.receive(data));
+  }
+
+  private settle(id: number) {
+    const request = this.pending.get(id);
+    if (request) {
+      clearTimeout(request.timer);
+      this.pending.delete(id);
+    }
+    return request;
+  }
+
+  private receive(response: ValidationResponse) {
+    const request = this.settle(response.id);
+    if (!request) {
+      return;
+    }
+    if ("error" in response) {
+      // the worker may have lost the schema, i.e. when it was restarted
+      this.sent = undefined;
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.errors);
+    }
+  }
+
+  /**
+   * cancel the pending requests, which resolve `null`
+   */
+  public cancel() {
+    [...this.pending.keys()].forEach((id) => {
+      this.settle(id)?.resolve(null);
+      this.transport.postMessage({ type: "cancel", id });
+    });
+  }
+
+  /**
+   * resolves the errors of the document, or `null` when it's superseded.
+   * rejects when the worker fails or doesn't respond in time
+   */
+  public validate({
+    schema,
+    draft,
+    ...request
+  }: Omit<ValidationRequest, "type" | "id"> &
+    Omit<ValidationSchema, "type">): Promise<JsonError[] | null> {
+    this.cancel();
+    if (this.sent?.schema !== schema || this.sent?.draft !== draft) {
+      this.sent = { schema, draft };
+      this.transport.postMessage({ type: "schema", schema, draft });
+    }
+    const id = ++this.id;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(id);
+        this.sent = undefined;
+        reject(new Error(`validation timed out after ${this.timeout}ms`));
+      }, this.timeout);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport.postMessage({ type: "validate", id, ...request });
+    });
+  }
+}
+
+/**
+ * validate a document in the worker, including the errors of the best
+ * `oneOf` or `anyOf` branch. ranges are mapped on the main thread,
+ * which has the syntax tree already
+ * @group Utilities
+ */
+export function handleValidationRequest(
+  { id, text, mode }: ValidationRequest,
+  draft: Draft | undefined
+): ValidationResponse {
+  if (!draft) {
+    return { id, error: "no schema to validate against" };
+  }
+  try {
+    const { data } =
+      mode === "json5" ? parseJSON5Document(text) : parseJSONDocument(text);
+    return {
+      id,
+      errors: expandBranchErrors(draft, draft.validate(data), data),
+    };
+  } catch (error) {
+    return { id, error: String(error) };
+  }
+}
+
+/**
+ * answer validation requests in a worker, i.e. `exposeValidationWorker(self)`
+ * @group Utilities
+ */
+export function exposeValidationWorker(
+  scope: ValidationWorkerScope,
+  options?: ValidationWorkerOptions
+) {
+  const formats = { ...defaultFormats, ...options?.formats };
+  // the request to answer, as newer requests supersede the older ones
+  let latest = 0;
+  let draft: Draft | undefined;
+  scope.addEventListener("message", ({ data: message }) => {
+    if (message.type === "schema") {
+      draft = withFormats(getDraft(message.schema, message.draft), formats);
+      return;
+    }
+    if (message.type === "cancel") {
+      latest = message.id === latest ? 0 : latest;
+      return;
+    }
+    latest = message.id;
+    // the schema that was sent before this request
+    const requestDraft = draft;
+    // let the queued messages arrive first, so that superseded
+    // and cancelled requests are skipped rather than validated
+    setTimeout(() => {
+      if (message.id !== latest) {
+        return;
+      }
+      scope.postMessage(handleValidationRequest(message, requestDraft));
+    });
+  });
+}
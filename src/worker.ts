@@ -0,0 +1,12 @@
+// the web worker side of `jsonSchemaWorkerLinter()`
+export {
+  exposeValidationWorker,
+  handleValidationRequest,
+  type ValidationWorkerScope,
+  type ValidationWorkerOptions,
+  type ValidationSchema,
+  type ValidationRequest,
+  type ValidationCancel,
+  type ValidationMessage,
+  type ValidationResponse,
+} from "./utils/validationWorker";